@@ -4,6 +4,9 @@ import { getIPCHandler, resetIPCHandler } from '@main/services/ipc-handler'
 import { getUpdateScheduler, resetUpdateScheduler } from '@main/services/update-scheduler'
 import { getNetValueUpdater, resetNetValueUpdater } from '@main/services/net-value-updater'
 import { initAutoUpdater } from '@main/services/auto-updater'
+import { getStorageService } from '@main/services/storage-service'
+import { getProviderRegistry } from '@main/fetchers/providers'
+import { getTradingCalendar } from '@main/calendar'
 
 let mainWindow: BrowserWindow | null = null
 
@@ -21,6 +24,12 @@ function createWindow() {
     title: 'FundEye'
   })
 
+  // 加载用户提供的交易日历文件，补充内置休市安排之外的年份
+  getTradingCalendar().loadFromFile(join(app.getPath('userData'), 'trading-calendar.json'))
+
+  // 按设置加载数据源
+  getProviderRegistry().applySettings(getStorageService().getSettings().dataSource)
+
   // 初始化 IPC 处理器
   const ipcHandler = getIPCHandler()
   ipcHandler.initialize(mainWindow)
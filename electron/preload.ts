@@ -1,9 +1,20 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { IPC_CHANNELS } from '../src/shared/ipc-channels'
+import type {
+  AlertRuleInput,
+  AllocationSettings,
+  AppSettingsPatch,
+  BacktestConfig,
+  FundTagsUpdate,
+  InvestmentPlanInput,
+  PendingOrderInput,
+  RedemptionFeeTier,
+  TransactionInput
+} from '../src/shared/types'
 
 const electronAPI = {
   // 基金操作
-  searchFund: (code: string) => ipcRenderer.invoke(IPC_CHANNELS.FUND_SEARCH, code),
+  searchFund: (keyword: string) => ipcRenderer.invoke(IPC_CHANNELS.FUND_SEARCH, keyword),
   addFund: (code: string) => ipcRenderer.invoke(IPC_CHANNELS.FUND_ADD, code),
   removeFund: (code: string) => ipcRenderer.invoke(IPC_CHANNELS.FUND_REMOVE, code),
 
@@ -17,13 +28,104 @@ const electronAPI = {
   getWatchlist: () => ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_GET),
   saveWatchlist: (funds: unknown[]) => ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_SAVE, funds),
   clearWatchlist: () => ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_CLEAR),
-  updateFundShares: (code: string, shares: number) =>
-    ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_UPDATE_SHARES, code, shares),
+
+  // 分组和标签
+  getGroups: () => ipcRenderer.invoke(IPC_CHANNELS.GROUP_LIST),
+  createGroup: (name: string) => ipcRenderer.invoke(IPC_CHANNELS.GROUP_CREATE, name),
+  renameGroup: (name: string, newName: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GROUP_RENAME, name, newName),
+  removeGroup: (name: string) => ipcRenderer.invoke(IPC_CHANNELS.GROUP_REMOVE, name),
+  updateFundTags: (code: string, update: FundTagsUpdate) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_UPDATE_TAGS, code, update),
+
+  // 收益日历
+  getProfitCalendar: (year: number, portfolioId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROFIT_CALENDAR, year, portfolioId),
+
+  // 组合
+  getPortfolios: () => ipcRenderer.invoke(IPC_CHANNELS.PORTFOLIO_LIST),
+  createPortfolio: (name: string) => ipcRenderer.invoke(IPC_CHANNELS.PORTFOLIO_CREATE, name),
+  renamePortfolio: (id: string, name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PORTFOLIO_RENAME, id, name),
+  removePortfolio: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.PORTFOLIO_REMOVE, id),
+  switchPortfolio: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.PORTFOLIO_SWITCH, id),
+  setPortfolioAllocation: (id: string, allocation: AllocationSettings | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PORTFOLIO_SET_ALLOCATION, id, allocation),
+
+  // 交易记录
+  getLedger: (portfolioId: string, code: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSACTION_LIST, portfolioId, code),
+  addTransaction: (portfolioId: string, code: string, input: TransactionInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSACTION_ADD, portfolioId, code, input),
+  removeTransaction: (portfolioId: string, code: string, id: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSACTION_REMOVE, portfolioId, code, id),
+  addPendingOrder: (portfolioId: string, code: string, input: PendingOrderInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PENDING_ORDER_ADD, portfolioId, code, input),
+  cancelPendingOrder: (portfolioId: string, code: string, id: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PENDING_ORDER_CANCEL, portfolioId, code, id),
+
+  // 定投计划
+  getInvestmentPlans: (portfolioId: string, code: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PLAN_LIST, portfolioId, code),
+  createInvestmentPlan: (portfolioId: string, code: string, input: InvestmentPlanInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PLAN_CREATE, portfolioId, code, input),
+  updateInvestmentPlan: (id: string, input: InvestmentPlanInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PLAN_UPDATE, id, input),
+  removeInvestmentPlan: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.PLAN_REMOVE, id),
+
+  // 提醒规则
+  getAlertRules: () => ipcRenderer.invoke(IPC_CHANNELS.ALERT_LIST),
+  createAlertRule: (input: AlertRuleInput) => ipcRenderer.invoke(IPC_CHANNELS.ALERT_CREATE, input),
+  updateAlertRule: (id: string, input: AlertRuleInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ALERT_UPDATE, id, input),
+  removeAlertRule: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.ALERT_REMOVE, id),
+  getAlertHistory: () => ipcRenderer.invoke(IPC_CHANNELS.ALERT_HISTORY),
+
+  // 赎回费测算
+  getSellQuote: (portfolioId: string, code: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_SELL_QUOTE, portfolioId, code),
+  setRedemptionFees: (code: string, tiers: RedemptionFeeTier[] | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_SET_REDEMPTION_FEES, code, tiers),
 
   // 历史净值
   getNetValueHistory: (code: string, range: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.NET_VALUE_HISTORY, code, range),
 
+  // 风险收益指标
+  getFundPerformance: (code: string, range: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_PERFORMANCE, code, range),
+  compareFunds: (codes: string[], range: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_COMPARE, codes, range),
+
+  // 策略回测
+  runBacktest: (code: string, config: BacktestConfig) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_BACKTEST, code, config),
+
+  // 比较基准
+  getFundBenchmark: (code: string, range: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_BENCHMARK, code, range),
+  setFundBenchmark: (code: string, indexCode: string | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.FUND_SET_BENCHMARK, code, indexCode),
+
+  // 估值准确度
+  getEstimateAccuracy: (code: string) => ipcRenderer.invoke(IPC_CHANNELS.ESTIMATE_ACCURACY, code),
+
+  // 分时估值
+  getIntradaySeries: (code: string, date?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.INTRADAY_SERIES, code, date),
+
+  // 数据源
+  getDataSources: () => ipcRenderer.invoke(IPC_CHANNELS.DATA_SOURCE_LIST),
+  setDataSource: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.DATA_SOURCE_SET, id),
+  addDataSource: (name: string, baseUrl: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.DATA_SOURCE_ADD, name, baseUrl),
+  removeDataSource: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.DATA_SOURCE_REMOVE, id),
+
+  // 设置
+  getSettings: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET),
+  updateSettings: (patch: AppSettingsPatch) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_UPDATE, patch),
+
   // 应用更新
   checkUpdate: () => ipcRenderer.invoke(IPC_CHANNELS.UPDATE_CHECK),
   downloadUpdate: () => ipcRenderer.invoke(IPC_CHANNELS.UPDATE_DOWNLOAD),
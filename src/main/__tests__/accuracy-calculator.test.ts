@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { AccuracyCalculator } from '../calculator/accuracy-calculator'
+import type { EstimateRecord } from '@shared/types'
+
+function record(date: string, estimated: number, real: number, self?: number): EstimateRecord {
+  return {
+    date,
+    estimatedValue: 1,
+    estimatedChange: estimated,
+    estimateSource: 'upstream',
+    upstreamChange: estimated,
+    selfChange: self,
+    realValue: 1,
+    realChange: real
+  }
+}
+
+describe('AccuracyCalculator', () => {
+  const calculator = new AccuracyCalculator()
+
+  it('should compute MAE, bias and direction hit rate', () => {
+    const stats = calculator.calculate([
+      record('2024-01-02', 1.0, 0.5),
+      record('2024-01-03', -1.0, -2.0),
+      record('2024-01-04', 0.5, -0.5)
+    ])
+
+    expect(stats).not.toBeNull()
+    expect(stats!.sampleSize).toBe(3)
+    expect(stats!.meanAbsoluteError).toBeCloseTo((0.5 + 1 + 1) / 3)
+    expect(stats!.bias).toBeCloseTo((0.5 + 1 + 1) / 3)
+    expect(stats!.directionHitRate).toBeCloseTo((2 / 3) * 100)
+  })
+
+  it('should skip records without the picked estimate', () => {
+    const stats = calculator.calculate(
+      [record('2024-01-02', 1.0, 0.5, 0.6), record('2024-01-03', 1.0, 0.5)],
+      (r) => r.selfChange
+    )
+    expect(stats!.sampleSize).toBe(1)
+    expect(stats!.meanAbsoluteError).toBeCloseTo(0.1)
+  })
+
+  it('should return null without samples', () => {
+    expect(calculator.calculate([])).toBeNull()
+  })
+})
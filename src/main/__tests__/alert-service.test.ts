@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { AlertRule, AlertRuleInput, AlertTrigger, Fund } from '@shared/types'
+import { resetMarketClock } from '../calendar'
+
+let rules: AlertRule[] = []
+let history: AlertTrigger[] = []
+
+const show = vi.fn()
+
+vi.mock('electron', () => ({
+  Notification: class {
+    static isSupported = () => true
+    show = show
+  }
+}))
+
+vi.mock('../services/storage-service', () => ({
+  getStorageService: () => ({
+    getAlertRules: () => rules,
+    saveAlertRules: (list: AlertRule[]) => {
+      rules = list
+    },
+    getAlertHistory: () => history,
+    saveAlertHistory: (list: AlertTrigger[]) => {
+      history = list
+    },
+    getPortfolios: () => ({
+      list: [{ id: 'default', name: '默认组合', codes: ['000001', '000002'], createdAt: '' }],
+      activeId: 'default'
+    }),
+    getWatchlist: () => [{ code: '000001' }]
+  })
+}))
+
+const fetchNetValueHistory = vi.fn()
+
+vi.mock('../fetchers/fund-fetcher', () => ({
+  fundFetcher: { fetchNetValueHistory }
+}))
+
+const { AlertService } = await import('../services/alert-service')
+
+function createFund(overrides: Partial<Fund> = {}): Fund {
+  return {
+    code: '000001',
+    name: '测试基金',
+    netValue: 1,
+    netValueDate: '2024-03-04',
+    estimatedValue: 0.97,
+    estimatedChange: -3,
+    updateTime: '',
+    holdings: [],
+    shares: 1000,
+    positions: { default: { shares: 1000 } },
+    ...overrides
+  }
+}
+
+function createInput(overrides: Partial<AlertRuleInput> = {}): AlertRuleInput {
+  return {
+    code: '000001',
+    portfolioId: 'default',
+    metric: 'estimatedChange',
+    operator: 'below',
+    threshold: -2,
+    cooldownMinutes: 30,
+    oncePerDay: false,
+    enabled: true,
+    ...overrides
+  }
+}
+
+function setNow(iso: string) {
+  resetMarketClock({ now: () => new Date(iso) })
+}
+
+describe('AlertService', () => {
+  let service: InstanceType<typeof AlertService>
+
+  beforeEach(() => {
+    rules = []
+    history = []
+    show.mockClear()
+    fetchNetValueHistory.mockReset()
+    service = new AlertService()
+    setNow('2024-03-05T10:00:00+08:00')
+  })
+
+  afterEach(() => {
+    resetMarketClock()
+  })
+
+  it('should reject invalid rules', () => {
+    expect(() => service.create(createInput({ code: '999999' }))).toThrow('该基金不在自选列表中')
+    expect(() => service.create(createInput({ code: null, metric: 'drawdown' }))).toThrow(
+      '整个组合只支持按涨跌幅和今日收益提醒'
+    )
+    expect(() => service.create(createInput({ cooldownMinutes: -1 }))).toThrow(
+      '冷却时间需为非负整数分钟'
+    )
+  })
+
+  it('should notify and record when the estimate crosses the threshold', async () => {
+    service.create(createInput())
+
+    // 首次检查只记录起点
+    expect(await service.evaluate([createFund({ estimatedChange: -1 })])).toHaveLength(0)
+    const triggers = await service.evaluate([createFund()])
+
+    expect(triggers).toHaveLength(1)
+    expect(triggers[0].date).toBe('2024-03-05')
+    expect(triggers[0].message).toBe('测试基金 估算涨跌幅 -3.00%（下穿 -2.00%）')
+    expect(history).toHaveLength(1)
+    expect(show).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not notify while the estimate stays past the threshold', async () => {
+    service.create(createInput())
+
+    expect(await service.evaluate([createFund()])).toHaveLength(0)
+    setNow('2024-03-05T11:00:00+08:00')
+    expect(await service.evaluate([createFund({ estimatedChange: -2.5 })])).toHaveLength(0)
+
+    // 回到阈值之上后再次下穿
+    await service.evaluate([createFund({ estimatedChange: -1.5 })])
+    expect(await service.evaluate([createFund()])).toHaveLength(1)
+  })
+
+  it('should only notify when crossing in the rule direction', async () => {
+    service.create(createInput({ operator: 'above', threshold: 2 }))
+
+    await service.evaluate([createFund({ estimatedChange: 3 })])
+    expect(await service.evaluate([createFund({ estimatedChange: 1 })])).toHaveLength(0)
+    expect(await service.evaluate([createFund({ estimatedChange: 2 })])).toHaveLength(1)
+  })
+
+  it('should wait for the cooldown before notifying again', async () => {
+    service.create(createInput())
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    await service.evaluate([createFund()])
+
+    setNow('2024-03-05T10:20:00+08:00')
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    expect(await service.evaluate([createFund()])).toHaveLength(0)
+
+    setNow('2024-03-05T10:30:00+08:00')
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    expect(await service.evaluate([createFund()])).toHaveLength(1)
+  })
+
+  it('should notify once per day when configured', async () => {
+    service.create(createInput({ oncePerDay: true, cooldownMinutes: 0 }))
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    await service.evaluate([createFund()])
+
+    setNow('2024-03-05T14:50:00+08:00')
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    expect(await service.evaluate([createFund()])).toHaveLength(0)
+
+    setNow('2024-03-06T09:35:00+08:00')
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    expect(await service.evaluate([createFund()])).toHaveLength(1)
+  })
+
+  it('should sum today profit over the portfolio', async () => {
+    service.create(createInput({ code: null, metric: 'todayProfit', threshold: -10 }))
+    await service.evaluate([createFund({ estimatedChange: 0, estimatedValue: 1 })])
+
+    const [trigger] = await service.evaluate([
+      createFund(),
+      createFund({ code: '000002', estimatedValue: 1.01, estimatedChange: 1 }),
+      createFund({ code: '000003', positions: undefined })
+    ])
+
+    // 000001 亏 30，000002 赚 10
+    expect(trigger.value).toBeCloseTo(-20, 6)
+    expect(trigger.message).toContain('默认组合 今日预估收益')
+  })
+
+  it('should measure drawdown from the one-year high', async () => {
+    fetchNetValueHistory.mockResolvedValue([
+      { date: '2023-06-01', value: 1.2 },
+      { date: '2024-03-04', value: 1 }
+    ])
+    service.create(createInput({ metric: 'drawdown', operator: 'above', threshold: 10 }))
+    await service.evaluate([createFund({ estimatedValue: 1.14 })])
+
+    const [trigger] = await service.evaluate([createFund({ estimatedValue: 1.02 })])
+
+    expect(trigger.value).toBeCloseTo(15)
+    expect(fetchNetValueHistory).toHaveBeenCalledWith('000001', '1y')
+
+    setNow('2024-03-05T11:00:00+08:00')
+    await service.evaluate([createFund({ estimatedValue: 1.02 })])
+    expect(fetchNetValueHistory).toHaveBeenCalledTimes(1)
+  })
+
+  it('should drop the history of a removed rule', async () => {
+    const [rule] = service.create(createInput())
+    await service.evaluate([createFund({ estimatedChange: -1 })])
+    await service.evaluate([createFund()])
+
+    service.remove(rule.id)
+
+    expect(rules).toHaveLength(0)
+    expect(history).toHaveLength(0)
+  })
+  it('should keep portfolio-wide rules when a fund leaves the portfolio', () => {
+    service.create(createInput())
+    service.create(createInput({ code: null, metric: 'todayProfit', threshold: -10 }))
+
+    service.removePortfolioRules('default', ['000001'])
+
+    expect(rules).toHaveLength(1)
+    expect(rules[0].code).toBeNull()
+  })
+})
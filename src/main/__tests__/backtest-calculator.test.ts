@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import type { BacktestConfig } from '@shared/types'
+import { BacktestCalculator } from '../calculator/backtest-calculator'
+
+// 1 月下跌、2 月回升的月度净值
+const HISTORY = [
+  { date: '2024-01-02', value: 1.0 },
+  { date: '2024-01-15', value: 0.8 },
+  { date: '2024-02-01', value: 0.8 },
+  { date: '2024-02-29', value: 1.0 },
+  { date: '2024-03-01', value: 1.0 }
+]
+
+function createConfig(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    strategy: 'fixedAmount',
+    startDate: '2024-01-01',
+    endDate: '2024-03-31',
+    amount: 1000,
+    frequency: 'monthly',
+    feeRate: 0,
+    ...overrides
+  }
+}
+
+describe('BacktestCalculator', () => {
+  const calculator = new BacktestCalculator()
+
+  it('should return null without net values in range', () => {
+    expect(
+      calculator.run(HISTORY, createConfig({ startDate: '2025-01-01', endDate: '2025-02-01' }))
+    ).toBeNull()
+  })
+
+  it('should reject invalid configs', () => {
+    expect(() => calculator.run(HISTORY, createConfig({ amount: 0 }))).toThrow('投入金额必须大于 0')
+    expect(() => calculator.run(HISTORY, createConfig({ startDate: '2024-04-01' }))).toThrow(
+      '开始日期不能晚于结束日期'
+    )
+  })
+
+  it('should replay a lump-sum purchase', () => {
+    const result = calculator.run(
+      [
+        { date: '2024-01-02', value: 1.0 },
+        { date: '2024-07-01', value: 1.2 },
+        { date: '2025-01-02', value: 1.1 }
+      ],
+      createConfig({ strategy: 'lumpSum', amount: 10000, endDate: '2025-12-31' })
+    )!
+
+    expect(result.trades).toHaveLength(1)
+    expect(result.finalValue).toBeCloseTo(11000)
+    expect(result.profit).toBeCloseTo(1000)
+    expect(result.returnRate).toBeCloseTo(10)
+    expect(result.irr).toBeCloseTo((Math.pow(1.1, 365 / 366) - 1) * 100, 4)
+    expect(result.maxDrawdown).toBeCloseTo((1 - 1.1 / 1.2) * 100)
+    expect(result.drawdownPeakDate).toBe('2024-07-01')
+    expect(result.drawdownTroughDate).toBe('2025-01-02')
+  })
+
+  it('should annualise over whole calendar days including leap days', () => {
+    const result = calculator.run(
+      [
+        { date: '2024-02-28', value: 1.0 },
+        { date: '2024-03-01', value: 1.001 }
+      ],
+      createConfig({ strategy: 'lumpSum', startDate: '2024-02-28', endDate: '2024-03-01' })
+    )!
+
+    // 2 月 28 日到 3 月 1 日跨过闰日，共 2 个自然日
+    expect(result.irr).toBeCloseTo((Math.pow(1.001, 365 / 2) - 1) * 100, 4)
+  })
+
+  it('should invest a fixed amount on the first net value date of each period', () => {
+    const result = calculator.run(HISTORY, createConfig({ feeRate: 1.5 }))!
+
+    expect(result.trades.map((t) => t.date)).toEqual(['2024-01-02', '2024-02-01', '2024-03-01'])
+    expect(result.trades[0].shares).toBeCloseTo(1000 / 1.015)
+    expect(result.trades[0].fee).toBeCloseTo(1000 - 1000 / 1.015)
+    expect(result.totalInvested).toBe(3000)
+    expect(result.finalValue).toBeCloseTo(3250 / 1.015)
+    expect(result.points.map((p) => p.invested)).toEqual([1000, 1000, 2000, 2000, 3000])
+    expect(result.irr).toBeGreaterThan(0)
+  })
+
+  it('should not count contributions as recovery in drawdown', () => {
+    const result = calculator.run(HISTORY, createConfig())!
+
+    // 1 月 15 日市值 800，相对投入 1000 回撤 20%，之后的追加投入不抬高回撤
+    expect(result.maxDrawdown).toBeCloseTo(20)
+    expect(result.drawdownPeakDate).toBe('2024-01-02')
+    expect(result.drawdownTroughDate).toBe('2024-01-15')
+  })
+
+  it('should top up and redeem towards the value-averaging target', () => {
+    const history = [...HISTORY.slice(0, 4), { date: '2024-03-01', value: 1.4 }]
+    const result = calculator.run(history, createConfig({ strategy: 'valueAveraging' }))!
+
+    expect(result.trades.map((t) => Math.round(t.amount))).toEqual([1000, 1200, -500])
+    expect(result.totalInvested).toBeCloseTo(2200)
+    expect(result.totalWithdrawn).toBeCloseTo(500)
+    expect(result.finalValue).toBeCloseTo(3000)
+    expect(result.profit).toBeCloseTo(1300)
+  })
+
+  it('should run once when several scheduled dates fall on one trading day', () => {
+    // 春节休市，02-12 的扣款顺延到 02-19
+    const history = [
+      { date: '2024-02-05', value: 1 },
+      { date: '2024-02-19', value: 1 },
+      { date: '2024-02-26', value: 1 }
+    ]
+    const config = createConfig({ frequency: 'weekly', startDate: '2024-02-05' })
+
+    expect(calculator.run(history, config)!.trades).toHaveLength(3)
+
+    // 价值平均按时间推进目标，02-26 为第 4 期
+    const va = calculator.run(history, { ...config, strategy: 'valueAveraging' })!
+    expect(va.finalValue).toBeCloseTo(4000)
+  })
+})
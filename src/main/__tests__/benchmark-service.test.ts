@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Fund } from '@shared/types'
+
+let watchlist: Fund[] = []
+
+vi.mock('../services/storage-service', () => ({
+  getStorageService: () => ({
+    getWatchlist: () => watchlist,
+    saveWatchlist: (list: Fund[]) => {
+      watchlist = list
+    }
+  })
+}))
+
+const fetchIndexHistory = vi.fn(async (..._args: unknown[]) => [
+  { date: '2024-03-01', value: 4000 },
+  { date: '2024-03-05', value: 4200 }
+])
+
+vi.mock('../fetchers/fund-fetcher', () => ({
+  fundFetcher: {
+    fetchNetValueHistory: async () => [
+      { date: '2024-03-01', value: 1 },
+      { date: '2024-03-04', value: 1.1 },
+      { date: '2024-03-05', value: 1.21 }
+    ],
+    fetchIndexHistory: (...args: unknown[]) => fetchIndexHistory(...args)
+  }
+}))
+
+const { BenchmarkService, defaultBenchmark } = await import('../services/benchmark-service')
+
+function createFund(code: string, name: string, type?: string): Fund {
+  return {
+    code,
+    name,
+    type,
+    netValue: 1,
+    netValueDate: '2024-03-05',
+    estimatedValue: 1,
+    estimatedChange: 0,
+    updateTime: '2024-03-05T07:00:00.000Z',
+    holdings: []
+  }
+}
+
+describe('BenchmarkService', () => {
+  const service = new BenchmarkService()
+
+  beforeEach(() => {
+    watchlist = [createFund('000001', '华夏成长混合', '混合型-偏股')]
+  })
+
+  it('should pick a default benchmark by fund type and name', () => {
+    expect(defaultBenchmark({ name: '易方达优质精选混合(QDII)', type: 'QDII' }).code).toBe('NDX')
+    expect(defaultBenchmark({ name: '易方达创业板ETF联接A', type: '指数型-股票' }).code).toBe(
+      '399006'
+    )
+    expect(defaultBenchmark({ name: '南方中证500ETF联接A', type: '指数型-股票' }).code).toBe(
+      '000905'
+    )
+    expect(defaultBenchmark({ name: '华夏成长混合', type: '混合型-偏股' }).code).toBe('000300')
+  })
+
+  it('should save and reset the benchmark per fund', () => {
+    expect(service.getBenchmark('000001').isDefault).toBe(true)
+
+    service.setBenchmark('000001', '000905')
+    expect(service.getBenchmark('000001')).toEqual({
+      index: { code: '000905', name: '中证500' },
+      isDefault: false
+    })
+
+    service.setBenchmark('000001', null)
+    expect(service.getBenchmark('000001').index.code).toBe('000300')
+    expect(() => service.setBenchmark('000001', 'SPX')).toThrow('不支持的比较基准')
+  })
+
+  it('should compare over dates shared by the fund and the index', async () => {
+    const result = (await service.compare('000001', '1m'))!
+
+    expect(result.series.map((p) => p.date)).toEqual(['2024-03-01', '2024-03-05'])
+    expect(result.fundReturn).toBeCloseTo(21)
+    expect(result.benchmarkReturn).toBeCloseTo(5)
+    expect(result.excessReturn).toBeCloseTo(16)
+    expect(result.outperformRate).toBe(100)
+  })
+  it('should report an index without history instead of an empty overlay', async () => {
+    fetchIndexHistory.mockResolvedValueOnce([])
+
+    await expect(service.compare('000001', '1m')).rejects.toThrow('数据源暂无沪深300的历史点位')
+  })
+})
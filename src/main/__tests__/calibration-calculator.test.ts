@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { CalibrationCalculator } from '../calculator/calibration-calculator'
+import type { EstimateRecord } from '@shared/types'
+
+/**
+ * 生成合成历史：真实涨跌幅 = 1.8 × 加权涨跌幅 + 0.1 + 噪声
+ * 覆盖占比 55%，selfChange 为归一化后的值
+ */
+function syntheticHistory(days: number): EstimateRecord[] {
+  const records: EstimateRecord[] = []
+  for (let i = 0; i < days; i++) {
+    const weighted = Math.sin(i * 1.3) * 1.5
+    const noise = (i % 2 === 0 ? 1 : -1) * 0.02
+    const coveredRatio = 55
+    records.push({
+      date: `2024-03-${String(i + 1).padStart(2, '0')}`,
+      estimatedValue: 1,
+      estimatedChange: 0,
+      estimateSource: 'upstream',
+      selfChange: (weighted / coveredRatio) * 100,
+      selfCoveredRatio: coveredRatio,
+      realValue: 1,
+      realChange: 1.8 * weighted + 0.1 + noise
+    })
+  }
+  return records
+}
+
+describe('CalibrationCalculator', () => {
+  const calculator = new CalibrationCalculator()
+
+  it('should recover scale and offset from synthetic history', () => {
+    const samples = calculator.extractSamples(syntheticHistory(20), 30)
+    const model = calculator.fit(samples)
+
+    expect(model).not.toBeNull()
+    expect(model!.sampleSize).toBe(20)
+    expect(model!.scale).toBeCloseTo(1.8, 1)
+    expect(model!.offset).toBeCloseTo(0.1, 1)
+    expect(model!.rSquared).toBeGreaterThan(0.99)
+    expect(model!.fittedThrough).toBe('2024-03-20')
+  })
+
+  it('should only use the most recent window and skip records without self estimates', () => {
+    const history = syntheticHistory(20)
+    history[19] = { ...history[19], selfChange: undefined }
+    const samples = calculator.extractSamples(history, 10)
+
+    expect(samples).toHaveLength(10)
+    expect(samples[0].date).toBe('2024-03-10')
+    expect(samples[9].date).toBe('2024-03-19')
+  })
+
+  it('should return null with too few samples or constant input', () => {
+    expect(calculator.fit(calculator.extractSamples(syntheticHistory(4), 30))).toBeNull()
+    expect(
+      calculator.fit([1, 2, 3, 4, 5].map((i) => ({ date: `2024-03-0${i}`, x: 1, y: i })))
+    ).toBeNull()
+  })
+
+  it('should produce a calibrated valuation from the self estimate', () => {
+    const model = { scale: 2, offset: 0.1, sampleSize: 20, rSquared: 0.9, fittedThrough: '' }
+    const valuation = calculator.calibrateValuation(
+      1.5,
+      {
+        estimatedValue: 1.515,
+        estimatedChange: 1,
+        updateTime: '2024-03-21 14:00',
+        isComplete: true,
+        coveredRatio: 50
+      },
+      model
+    )
+
+    // 加权涨跌幅 = 1 × 50% = 0.5，校准后 = 2 × 0.5 + 0.1
+    expect(valuation.estimatedChange).toBeCloseTo(1.1)
+    expect(valuation.estimatedValue).toBeCloseTo(1.5 * 1.011)
+    expect(valuation.coveredRatio).toBe(50)
+  })
+})
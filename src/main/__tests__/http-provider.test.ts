@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const get = vi.fn()
+
+vi.mock('axios', () => ({
+  default: { get: (...args: unknown[]) => get(...args) },
+  AxiosError: class extends Error {}
+}))
+
+const { HttpDataProvider } = await import('../fetchers/providers/http-provider')
+
+const FEE_PAGE = `
+<h4 class="t"><label class="left">申购费率（前端）</label></h4>
+<table class="w650 comm jjfl"><tbody><tr><td>小于100万元</td><td>1.50%</td></tr></tbody></table>
+<h4 class="t"><label class="left">赎回费率</label></h4>
+<div class="boxitem w790"><table class="w650 comm jjfl">
+<thead><tr><th class="first">适用金额</th><th>适用期限</th><th class="last">赎回费率</th></tr></thead>
+<tbody>
+<tr><td>---</td><td>小于7天</td><td>1.50%</td></tr>
+<tr><td>---</td><td>大于等于7天，小于6个月</td><td>0.50%</td></tr>
+<tr><td>---</td><td>大于等于6个月，小于2年</td><td>0.25%</td></tr>
+<tr><td>---</td><td>大于等于2年</td><td>0.00%</td></tr>
+</tbody></table></div>`
+
+describe('HttpDataProvider', () => {
+  const provider = new HttpDataProvider('test', '测试', 'https://proxy.example.com/')
+
+  beforeEach(() => {
+    get.mockReset()
+  })
+
+  it('should read redemption fee tiers from the F10 fee page', async () => {
+    get.mockResolvedValue({ data: FEE_PAGE })
+
+    const tiers = await provider.fetchRedemptionFees('000001')
+
+    expect(get).toHaveBeenCalledWith(
+      'https://proxy.example.com/api/fundf10/jjfl_000001.html',
+      expect.anything()
+    )
+    expect(tiers).toEqual([
+      { minDays: 0, rate: 1.5 },
+      { minDays: 7, rate: 0.5 },
+      { minDays: 180, rate: 0.25 },
+      { minDays: 730, rate: 0 }
+    ])
+  })
+
+  it('should return no tiers when the page has no redemption table', async () => {
+    get.mockResolvedValue({ data: '<html></html>' })
+
+    expect(await provider.fetchRedemptionFees('000001')).toEqual([])
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Fund, IntradayPoint } from '@shared/types'
+
+const appendIntradayPoints = vi.fn<[string, Record<string, IntradayPoint>], void>()
+
+vi.mock('../services/storage-service', () => ({
+  getStorageService: () => ({ appendIntradayPoints })
+}))
+
+const { IntradayRecorder } = await import('../services/intraday-recorder')
+
+function createFund(code: string, change: number, isRealValue = false): Fund {
+  return {
+    code,
+    name: `测试基金${code}`,
+    netValue: 1,
+    netValueDate: '2024-03-04',
+    estimatedValue: 1 + change / 100,
+    estimatedChange: change,
+    updateTime: '2024-03-05 10:00',
+    isRealValue,
+    holdings: []
+  }
+}
+
+describe('IntradayRecorder', () => {
+  const recorder = new IntradayRecorder()
+
+  beforeEach(() => {
+    appendIntradayPoints.mockClear()
+  })
+
+  it('should record estimates of funds still waiting for net value', () => {
+    recorder.record(
+      [createFund('000001', 1.23), createFund('000002', -0.5, true)],
+      new Date('2024-03-05T10:15:42+08:00')
+    )
+
+    expect(appendIntradayPoints).toHaveBeenCalledWith('2024-03-05', {
+      '000001': { time: '10:15', estimatedValue: 1.0123, estimatedChange: 1.23 }
+    })
+  })
+
+  it('should skip ticks during the lunch break, before the open, on weekends and on holidays', () => {
+    recorder.record([createFund('000001', 1)], new Date('2024-03-05T12:10:00+08:00'))
+    recorder.record([createFund('000001', 1)], new Date('2024-03-09T10:10:00+08:00'))
+    recorder.record([createFund('000001', 1)], new Date('2024-03-05T01:00:00Z'))
+    recorder.record([createFund('000001', 1)], new Date('2024-10-02T10:10:00+08:00'))
+
+    expect(appendIntradayPoints).not.toHaveBeenCalled()
+  })
+})
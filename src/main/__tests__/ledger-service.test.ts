@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Fund, PendingOrder, Transaction } from '@shared/types'
+import { resetMarketClock } from '../calendar'
+
+let transactions: Record<string, Transaction[]> = {}
+let pendingOrders: Record<string, PendingOrder[]> = {}
+let watchlist: Fund[] = []
+
+vi.mock('../services/storage-service', () => ({
+  getStorageService: () => ({
+    getSettings: () => ({ ledger: { costMethod: 'fifo' } }),
+    getWatchlist: () => watchlist,
+    saveWatchlist: (list: Fund[]) => {
+      watchlist = list
+    },
+    getPortfolios: () => ({
+      list: [
+        { id: 'default', name: '默认组合', codes: ['000001'], createdAt: '' },
+        { id: 'other', name: '另一组合', codes: ['000001'], createdAt: '' }
+      ],
+      activeId: 'default'
+    }),
+    getTransactions: (code: string) => transactions[code] ?? [],
+    saveTransactions: (code: string, list: Transaction[]) => {
+      transactions[code] = list
+    },
+    getPendingOrders: (code: string) => pendingOrders[code] ?? [],
+    getAllPendingOrders: () => pendingOrders,
+    savePendingOrders: (code: string, list: PendingOrder[]) => {
+      pendingOrders[code] = list
+    }
+  })
+}))
+
+const fetchNetValueHistory = vi.fn(async () => [
+  { date: '2024-03-04', value: 1.2 },
+  { date: '2024-03-05', value: 1.25 }
+])
+
+vi.mock('../fetchers/fund-fetcher', () => ({
+  fundFetcher: { fetchNetValueHistory }
+}))
+
+const { LedgerService } = await import('../services/ledger-service')
+
+function createFund(name: string, netValueDate: string, netValue: number): Fund {
+  return {
+    code: '000001',
+    name,
+    netValue,
+    netValueDate,
+    estimatedValue: netValue,
+    estimatedChange: 0,
+    updateTime: `${netValueDate} 15:00`,
+    holdings: []
+  }
+}
+
+function setNow(iso: string): void {
+  resetMarketClock({ now: () => new Date(iso) })
+}
+
+describe('LedgerService pending orders', () => {
+  const service = new LedgerService()
+
+  beforeEach(() => {
+    transactions = {}
+    pendingOrders = {}
+    fetchNetValueHistory.mockClear()
+  })
+
+  afterEach(() => {
+    resetMarketClock()
+  })
+
+  it('should confirm a purchase once the trade-date net value is published', async () => {
+    watchlist = [createFund('测试混合', '2024-03-04', 1.2)]
+    setNow('2024-03-05T14:30:00+08:00')
+    const ledger = service.addPendingOrder('default', '000001', {
+      type: 'buy',
+      amount: 1000,
+      feeRate: 0
+    })
+    expect(ledger.pending[0]).toMatchObject({ tradeDate: '2024-03-05', confirmDate: '2024-03-06' })
+
+    // 当天盘中净值未公布，不确认，份额不计入今日收益
+    const daytime = [createFund('测试混合', '2024-03-04', 1.2)]
+    expect(await service.confirmPending(daytime)).toBe(0)
+    expect(daytime[0].shares).toBeUndefined()
+
+    setNow('2024-03-05T21:00:00+08:00')
+    const evening = [createFund('测试混合', '2024-03-05', 1.25)]
+    expect(await service.confirmPending(evening)).toBe(1)
+    expect(transactions['000001'][0]).toMatchObject({
+      portfolioId: 'default',
+      date: '2024-03-06',
+      netValue: 1.25
+    })
+    expect(pendingOrders['000001']).toHaveLength(0)
+
+    // T 日晚间已确认，但份额从确认日起才计入今日收益
+    expect(evening[0].shares).toBe(0)
+    expect(evening[0].positions).toBeUndefined()
+
+    setNow('2024-03-06T09:30:00+08:00')
+    expect(service.refreshPositions(evening)).toBe(true)
+    expect(evening[0].shares).toBe(800)
+    expect(evening[0].positions).toEqual({ default: { shares: 800, costPrice: 1.25 } })
+    expect(service.refreshPositions(evening)).toBe(false)
+  })
+
+  it('should confirm QDII purchases one trading day later using historical net value', async () => {
+    watchlist = [createFund('测试纳斯达克(QDII)', '2024-03-04', 1.2)]
+    setNow('2024-03-05T10:00:00+08:00')
+    const ledger = service.addPendingOrder('default', '000001', {
+      type: 'buy',
+      amount: 1000,
+      feeRate: 0
+    })
+    expect(ledger.pending[0].confirmDate).toBe('2024-03-07')
+
+    setNow('2024-03-05T21:00:00+08:00')
+    expect(
+      await service.confirmPending([createFund('测试纳斯达克(QDII)', '2024-03-05', 1.25)])
+    ).toBe(0)
+
+    setNow('2024-03-06T21:00:00+08:00')
+    const funds = [createFund('测试纳斯达克(QDII)', '2024-03-06', 1.3)]
+    expect(await service.confirmPending(funds)).toBe(1)
+    expect(fetchNetValueHistory).toHaveBeenCalledTimes(1)
+    expect(funds[0].shares).toBe(0)
+
+    setNow('2024-03-07T09:30:00+08:00')
+    service.refreshPositions(funds)
+    expect(funds[0].shares).toBe(800)
+    expect(transactions['000001'][0].date).toBe('2024-03-07')
+  })
+
+  it('should reject redemptions exceeding the available shares', () => {
+    watchlist = [createFund('测试混合', '2024-03-04', 1.2)]
+    setNow('2024-03-05T10:00:00+08:00')
+    expect(() =>
+      service.addPendingOrder('default', '000001', { type: 'sell', shares: 10 })
+    ).toThrow('可赎回份额不足')
+  })
+})
+
+describe('LedgerService portfolios', () => {
+  const service = new LedgerService()
+
+  beforeEach(() => {
+    transactions = {}
+    pendingOrders = {}
+    watchlist = [createFund('测试混合', '2024-03-04', 1.2)]
+  })
+
+  it('should keep positions per portfolio and aggregate them on the fund', () => {
+    service.addTransaction('default', '000001', {
+      type: 'buy',
+      date: '2024-03-01',
+      amount: 1000,
+      netValue: 1,
+      feeRate: 0
+    })
+    const ledger = service.addTransaction('other', '000001', {
+      type: 'buy',
+      date: '2024-03-01',
+      amount: 1000,
+      netValue: 2,
+      feeRate: 0
+    })
+
+    expect(ledger.position.shares).toBe(500)
+    expect(watchlist[0].positions).toEqual({
+      default: { shares: 1000, costPrice: 1 },
+      other: { shares: 500, costPrice: 2 }
+    })
+    expect(watchlist[0].shares).toBe(1500)
+    expect(watchlist[0].costPrice).toBeCloseTo(2000 / 1500, 6)
+  })
+
+  it('should drop only the removed fund records of a portfolio', () => {
+    for (const portfolioId of ['default', 'other']) {
+      service.addTransaction(portfolioId, '000001', {
+        type: 'buy',
+        date: '2024-03-01',
+        amount: 1000,
+        netValue: 1,
+        feeRate: 0
+      })
+    }
+    pendingOrders['000001'] = [
+      { id: 'p1', portfolioId: 'default' } as PendingOrder,
+      { id: 'p2', portfolioId: 'other' } as PendingOrder
+    ]
+
+    service.removePortfolioRecords('default', ['000001'])
+
+    expect(transactions['000001'].map((t) => t.portfolioId)).toEqual(['other'])
+    expect(pendingOrders['000001'].map((o) => o.id)).toEqual(['p2'])
+    expect(watchlist[0].positions).toEqual({ other: { shares: 1000, costPrice: 1 } })
+    expect(watchlist[0].shares).toBe(1000)
+  })
+
+  it('should not redeem shares held by another portfolio', () => {
+    service.addTransaction('other', '000001', {
+      type: 'buy',
+      date: '2024-03-01',
+      amount: 1000,
+      netValue: 1,
+      feeRate: 0
+    })
+    expect(() =>
+      service.addTransaction('default', '000001', {
+        type: 'sell',
+        date: '2024-03-04',
+        shares: 100,
+        netValue: 1.2,
+        feeRate: 0
+      })
+    ).toThrow('超过持有份额')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { MarketClock } from '../calendar/market-clock'
+import { TradingCalendar } from '../calendar/trading-calendar'
+
+const calendar = new TradingCalendar()
+
+function clockAt(iso: string): MarketClock {
+  return new MarketClock({ now: () => new Date(iso), calendar: () => calendar })
+}
+
+describe('MarketClock', () => {
+  it('should use the Beijing date regardless of the host timezone', () => {
+    // UTC 2024-03-04 23:30 已是北京时间 3 月 5 日 07:30
+    const clock = clockAt('2024-03-04T23:30:00Z')
+    expect(clock.today()).toBe('2024-03-05')
+    expect(clock.formatTime()).toBe('2024-03-05 07:30')
+    expect(clock.getPhase()).toBe('pre-open')
+  })
+
+  it('should report session phases on a trading day', () => {
+    const phaseAt = (time: string) => clockAt(`2024-03-05T${time}+08:00`).getPhase()
+    expect(phaseAt('09:29:59')).toBe('pre-open')
+    expect(phaseAt('09:30:00')).toBe('morning')
+    expect(phaseAt('11:30:30')).toBe('morning')
+    expect(phaseAt('11:31:00')).toBe('lunch')
+    expect(phaseAt('13:00:00')).toBe('afternoon')
+    expect(phaseAt('15:00:59')).toBe('afternoon')
+    expect(phaseAt('15:01:00')).toBe('post-close')
+    expect(phaseAt('20:00:00')).toBe('net-value')
+  })
+
+  it('should keep the session closed over the lunch break', () => {
+    // 午间休市仍算交易时间，但不在连续竞价时段
+    const lunch = clockAt('2024-03-05T12:00:00+08:00')
+    expect(lunch.isTradingTime()).toBe(true)
+    expect(lunch.isSessionOpen()).toBe(false)
+    expect(clockAt('2024-03-05T13:05:00+08:00').isSessionOpen()).toBe(true)
+  })
+
+  it('should treat weekends and holidays as closed', () => {
+    expect(clockAt('2024-03-09T10:00:00+08:00').getPhase()).toBe('closed')
+    expect(clockAt('2024-10-02T10:00:00+08:00').getPhase()).toBe('closed')
+    expect(clockAt('2024-10-02T10:00:00+08:00').isTradingTime()).toBe(false)
+  })
+
+  it('should find the next transition, skipping holidays', () => {
+    const lunch = clockAt('2024-03-05T11:45:00+08:00').nextTransition()
+    expect(lunch.phase).toBe('afternoon')
+    expect(lunch.at.toISOString()).toBe('2024-03-05T05:00:00.000Z')
+
+    const holiday = clockAt('2024-09-30T21:00:00+08:00').nextTransition()
+    expect(holiday.phase).toBe('pre-open')
+    expect(holiday.at.toISOString()).toBe('2024-10-07T16:00:00.000Z')
+  })
+
+  it('should parse wall-clock times as Beijing time and keep ISO offsets', () => {
+    const clock = clockAt('2024-03-05T12:00:00+08:00')
+    expect(clock.parseTime('2024-03-05 14:30')).toBe(Date.parse('2024-03-05T14:30:00+08:00'))
+    expect(clock.dateOf('2024-03-04T17:00:00.000Z')).toBe('2024-03-05')
+    expect(clock.dateOf('invalid')).toBe('')
+  })
+
+  it('should apply the 15:00 cutoff when assigning the trade date of an order', () => {
+    const tradeDateAt = (iso: string) => clockAt(iso).orderTradeDate()
+    expect(tradeDateAt('2024-03-05T14:59:00+08:00')).toBe('2024-03-05')
+    expect(tradeDateAt('2024-03-05T15:00:00+08:00')).toBe('2024-03-06')
+    // 周五收盘后和周末提交顺延到下周一
+    expect(tradeDateAt('2024-03-08T16:00:00+08:00')).toBe('2024-03-11')
+    expect(tradeDateAt('2024-03-09T10:00:00+08:00')).toBe('2024-03-11')
+  })
+})
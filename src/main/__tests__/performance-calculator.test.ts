@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { PerformanceCalculator } from '../calculator/performance-calculator'
+
+describe('PerformanceCalculator', () => {
+  const calculator = new PerformanceCalculator()
+
+  it('should return null with fewer than two points', () => {
+    expect(calculator.calculate([])).toBeNull()
+    expect(calculator.calculate([{ date: '2024-01-02', value: 1 }])).toBeNull()
+  })
+
+  it('should calculate return, drawdown and win rate', () => {
+    const metrics = calculator.calculate([
+      { date: '2024-01-02', value: 1.0 },
+      { date: '2024-01-03', value: 1.2 },
+      { date: '2024-01-04', value: 0.9 },
+      { date: '2024-01-05', value: 1.08 },
+      { date: '2024-01-08', value: 1.26 }
+    ])!
+
+    expect(metrics.startDate).toBe('2024-01-02')
+    expect(metrics.endDate).toBe('2024-01-08')
+    expect(metrics.tradingDays).toBe(4)
+    expect(metrics.totalReturn).toBeCloseTo(26)
+    expect(metrics.maxDrawdown).toBeCloseTo(25)
+    expect(metrics.drawdownPeakDate).toBe('2024-01-03')
+    expect(metrics.drawdownTroughDate).toBe('2024-01-04')
+    expect(metrics.drawdownRecoveryDate).toBe('2024-01-08')
+    expect(metrics.winRate).toBeCloseTo(75)
+    expect(metrics.calmarRatio).toBeCloseTo(metrics.annualizedReturn / 25)
+  })
+
+  it('should annualize return by calendar days', () => {
+    const metrics = calculator.calculate([
+      { date: '2023-01-01', value: 1 },
+      { date: '2024-01-01', value: 1.1 }
+    ])!
+
+    expect(metrics.annualizedReturn).toBeCloseTo(10)
+    expect(metrics.annualizedVolatility).toBe(0)
+    expect(metrics.sharpeRatio).toBeNull()
+    expect(metrics.calmarRatio).toBeNull()
+  })
+
+  it('should leave recovery date empty while still below the peak', () => {
+    const metrics = calculator.calculate([
+      { date: '2024-01-02', value: 1.0 },
+      { date: '2024-01-03', value: 0.8 },
+      { date: '2024-01-04', value: 0.9 }
+    ])!
+
+    expect(metrics.maxDrawdown).toBeCloseTo(20)
+    expect(metrics.drawdownRecoveryDate).toBeNull()
+    expect(metrics.sharpeRatio).not.toBeNull()
+  })
+  it('should normalize net values to the range start', () => {
+    const series = calculator.normalize([
+      { date: '2024-01-02', value: 0 },
+      { date: '2024-01-03', value: 2 },
+      { date: '2024-01-04', value: 2.5 }
+    ])
+
+    expect(series.map((p) => p.date)).toEqual(['2024-01-03', '2024-01-04'])
+    expect(series[0].change).toBe(0)
+    expect(series[1].change).toBeCloseTo(25)
+  })
+  it('should measure excess return, tracking error and beta against a benchmark', () => {
+    const index = { code: '000300', name: '沪深300' }
+    const result = calculator.compareWithBenchmark(
+      [
+        { date: '2024-01-02', value: 1 },
+        { date: '2024-01-03', value: 1.02 },
+        { date: '2024-01-04', value: 1.0098 },
+        { date: '2024-01-05', value: 1.03 }
+      ],
+      [
+        { date: '2024-01-02', value: 100 },
+        { date: '2024-01-03', value: 101 },
+        { date: '2024-01-04', value: 100.495 },
+        { date: '2024-01-05', value: 101.5 }
+      ],
+      index,
+      true
+    )!
+
+    // 基金日收益恰好是指数的两倍
+    expect(result.beta).toBeCloseTo(2)
+    expect(result.excessReturn).toBeCloseTo(result.fundReturn - result.benchmarkReturn)
+    expect(result.trackingError).toBeGreaterThan(0)
+    expect(result.series[0].change).toBe(0)
+    expect(result.isDefault).toBe(true)
+  })
+
+  it('should return null without enough shared dates', () => {
+    const index = { code: '000300', name: '沪深300' }
+    expect(
+      calculator.compareWithBenchmark(
+        [
+          { date: '2024-01-02', value: 1 },
+          { date: '2024-01-03', value: 1.1 }
+        ],
+        [{ date: '2024-01-03', value: 100 }],
+        index,
+        false
+      )
+    ).toBeNull()
+  })
+})
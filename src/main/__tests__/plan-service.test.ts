@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { InvestmentPlan, PendingOrderInput } from '@shared/types'
+import { resetMarketClock } from '../calendar'
+
+let plans: InvestmentPlan[] = []
+
+vi.mock('../services/storage-service', () => ({
+  getStorageService: () => ({
+    getInvestmentPlans: () => plans,
+    saveInvestmentPlans: (list: InvestmentPlan[]) => {
+      plans = list
+    },
+    getPortfolios: () => ({
+      list: [{ id: 'default', name: '默认组合', codes: ['000001'], createdAt: '' }],
+      activeId: 'default'
+    }),
+    getTransactions: () => [],
+    getPendingOrders: () => [],
+    getWatchlist: () => []
+  })
+}))
+
+const addPendingOrder = vi.fn((_portfolioId: string, _code: string, _input: PendingOrderInput) => {
+  return {}
+})
+
+vi.mock('../services/ledger-service', () => ({
+  getLedgerService: () => ({ addPendingOrder })
+}))
+
+const { PlanService, runDates } = await import('../services/plan-service')
+
+function createPlan(overrides: Partial<InvestmentPlan> = {}): InvestmentPlan {
+  return {
+    id: 'plan-1',
+    code: '000001',
+    portfolioId: 'default',
+    amount: 500,
+    feeRate: 0.15,
+    frequency: 'weekly',
+    weekday: 5,
+    startDate: '2024-02-02',
+    enabled: true,
+    executedThrough: '2024-02-01',
+    createdAt: '',
+    ...overrides
+  }
+}
+
+function take(dates: Generator<string>, count: number): string[] {
+  const result: string[] = []
+  for (const date of dates) {
+    result.push(date)
+    if (result.length === count) break
+  }
+  return result
+}
+
+describe('runDates', () => {
+  it('should shift runs on holidays to the next trading day and run once', () => {
+    // 春节休市 2024-02-09 至 02-16，两个周五都顺延到 02-19
+    expect(take(runDates(createPlan()), 3)).toEqual(['2024-02-02', '2024-02-19', '2024-02-23'])
+  })
+
+  it('should run monthly plans on the given day of month', () => {
+    const plan = createPlan({
+      frequency: 'monthly',
+      weekday: undefined,
+      dayOfMonth: 1,
+      startDate: '2024-08-15'
+    })
+    // 2024-09-01 为周日，10-01 至 10-07 国庆休市
+    expect(take(runDates(plan), 3)).toEqual(['2024-09-02', '2024-10-08', '2024-11-01'])
+  })
+})
+
+describe('PlanService', () => {
+  const service = new PlanService()
+
+  beforeEach(() => {
+    plans = []
+    addPendingOrder.mockClear()
+  })
+
+  afterEach(() => {
+    resetMarketClock()
+  })
+
+  it('should catch up missed runs as pending orders on their own dates', () => {
+    resetMarketClock({ now: () => new Date('2024-02-20T10:00:00+08:00') })
+    plans = [createPlan()]
+
+    expect(service.runDue()).toBe(2)
+    expect(addPendingOrder.mock.calls.map(([, , input]) => input.orderTime)).toEqual([
+      '2024-02-02 09:30',
+      '2024-02-19 09:30'
+    ])
+    expect(addPendingOrder.mock.calls[0][2]).toMatchObject({
+      type: 'buy',
+      amount: 500,
+      feeRate: 0.15,
+      planId: 'plan-1'
+    })
+    expect(plans[0].executedThrough).toBe('2024-02-20')
+
+    // 同一天再次执行不重复生成
+    expect(service.runDue()).toBe(0)
+  })
+
+  it('should not backfill runs skipped while paused', () => {
+    resetMarketClock({ now: () => new Date('2024-02-20T10:00:00+08:00') })
+    plans = [createPlan({ enabled: false })]
+
+    expect(service.runDue()).toBe(0)
+    const [summary] = service.update('plan-1', { ...createPlan(), enabled: true })
+    expect(summary.nextRunDate).toBe('2024-02-23')
+    expect(service.runDue()).toBe(0)
+    expect(addPendingOrder).not.toHaveBeenCalled()
+  })
+
+  it('should reject invalid plans', () => {
+    resetMarketClock({ now: () => new Date('2024-02-20T10:00:00+08:00') })
+    const input = {
+      amount: 500,
+      feeRate: 0.15,
+      frequency: 'weekly' as const,
+      startDate: '2024-02-20',
+      enabled: true
+    }
+
+    expect(() => service.create('default', '000001', { ...input, weekday: 6 })).toThrow(
+      '扣款日需为周一至周五'
+    )
+    expect(() =>
+      service.create('default', '000001', { ...input, weekday: 1, startDate: '2024-02-19' })
+    ).toThrow('开始日期不能早于今天')
+    expect(service.create('default', '000001', { ...input, weekday: 1 })[0].nextRunDate).toBe(
+      '2024-02-26'
+    )
+  })
+})
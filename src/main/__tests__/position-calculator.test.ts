@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { PositionCalculator } from '../calculator/position-calculator'
+import type { Transaction, TransactionInput } from '@shared/types'
+
+let seq = 0
+
+function tx(input: TransactionInput): Transaction {
+  seq += 1
+  return {
+    ...input,
+    id: `t${seq}`,
+    code: '000001',
+    portfolioId: 'default',
+    createdAt: `2024-01-01T00:00:${String(seq % 60).padStart(2, '0')}.000Z`
+  }
+}
+
+// 两笔不同净值的申购，再赎回 500 份
+const twoBuysAndSell = [
+  tx({ type: 'buy', date: '2024-01-02', amount: 1000, netValue: 1, feeRate: 0 }),
+  tx({ type: 'buy', date: '2024-02-01', amount: 1000, netValue: 2, feeRate: 0 }),
+  tx({ type: 'sell', date: '2024-03-01', shares: 500, netValue: 2, feeRate: 0 })
+]
+
+describe('PositionCalculator', () => {
+  const calculator = new PositionCalculator()
+
+  it('should derive shares from amount with front-end fee', () => {
+    const position = calculator.calculate([
+      tx({ type: 'buy', date: '2024-01-02', amount: 10000, netValue: 1, feeRate: 0.15 })
+    ])
+
+    expect(position.shares).toBeCloseTo(9985.02, 2)
+    expect(position.cost).toBe(10000)
+    expect(position.totalFees).toBeCloseTo(14.98, 2)
+    expect(position.averageCost).toBeCloseTo(10000 / 9985.02, 6)
+  })
+
+  it('should carry cost of the earliest lots under FIFO', () => {
+    const position = calculator.calculate(twoBuysAndSell, 'fifo')
+
+    expect(position.shares).toBe(1000)
+    expect(position.cost).toBe(1500)
+    expect(position.realizedProfit).toBe(500)
+    expect(position.lots).toHaveLength(2)
+    expect(position.lots[0].shares).toBe(500)
+  })
+
+  it('should carry average cost under the average method', () => {
+    const position = calculator.calculate(twoBuysAndSell, 'average')
+
+    expect(position.shares).toBe(1000)
+    expect(position.cost).toBeCloseTo(1333.33, 2)
+    expect(position.realizedProfit).toBeCloseTo(333.33, 2)
+    expect(position.averageCost).toBeCloseTo(4 / 3, 6)
+  })
+
+  it('should count dividends as realized profit and reinvest into new lots', () => {
+    const position = calculator.calculate([
+      tx({ type: 'buy', date: '2024-01-02', amount: 1000, netValue: 1, feeRate: 0 }),
+      tx({ type: 'dividend', date: '2024-02-01', amount: 20 }),
+      tx({ type: 'reinvest', date: '2024-03-01', amount: 30, netValue: 1.5 })
+    ])
+
+    expect(position.shares).toBe(1020)
+    expect(position.cost).toBe(1030)
+    expect(position.realizedProfit).toBe(50)
+  })
+
+  it('should apply transactions in date order regardless of input order', () => {
+    const shuffled = [twoBuysAndSell[2], twoBuysAndSell[0], twoBuysAndSell[1]]
+    expect(calculator.calculate(shuffled).cost).toBe(1500)
+  })
+
+  it('should reject selling more shares than held', () => {
+    expect(() =>
+      calculator.calculate([
+        tx({ type: 'buy', date: '2024-01-02', amount: 100, netValue: 1, feeRate: 0 }),
+        tx({ type: 'sell', date: '2024-01-03', shares: 200, netValue: 1, feeRate: 0 })
+      ])
+    ).toThrow('超过持有份额')
+  })
+})
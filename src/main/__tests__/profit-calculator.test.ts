@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { ProfitCalculator } from '../calculator/profit-calculator'
+import type { DailyProfitRecord, Fund } from '@shared/types'
+
+function createFund(code: string, overrides: Partial<Fund> = {}): Fund {
+  return {
+    code,
+    name: `测试基金${code}`,
+    netValue: 1.1,
+    netValueDate: '2024-03-05',
+    estimatedValue: 1.1,
+    estimatedChange: 10,
+    updateTime: '2024-03-05T13:00:00.000Z',
+    holdings: [],
+    isRealValue: true,
+    shares: 1000,
+    ...overrides
+  }
+}
+
+function record(date: string, profit: number): DailyProfitRecord {
+  return { date, profit, funds: [] }
+}
+
+describe('ProfitCalculator', () => {
+  const calculator = new ProfitCalculator()
+
+  it('should record profit only for held funds with the real net value of the day', () => {
+    const result = calculator.buildDailyRecord(
+      [
+        createFund('000001'),
+        createFund('000002', { isRealValue: false }),
+        createFund('000003', { netValueDate: '2024-03-04' }),
+        createFund('000004', { shares: 0 })
+      ],
+      '2024-03-05'
+    )!
+
+    expect(result.funds.map((f) => f.code)).toEqual(['000001'])
+    expect(result.profit).toBeCloseTo(100)
+  })
+
+  it('should return null when no fund can be recorded', () => {
+    expect(calculator.buildDailyRecord([createFund('000001')], '2024-03-06')).toBeNull()
+  })
+
+  it('should split profit by portfolio shares', () => {
+    const daily = calculator.buildDailyRecord(
+      [
+        createFund('000001', {
+          shares: 1000,
+          positions: { a: { shares: 750 }, b: { shares: 250 } }
+        })
+      ],
+      '2024-03-05'
+    )!
+
+    expect(calculator.forPortfolio(daily, 'a')!.profit).toBeCloseTo(75)
+    expect(calculator.forPortfolio(daily, 'b')!.profit).toBeCloseTo(25)
+    expect(calculator.forPortfolio(daily, 'c')).toBeNull()
+  })
+
+  it('should summarize monthly and yearly totals', () => {
+    const calendar = calculator.summarize(
+      [
+        record('2023-12-29', 50),
+        record('2024-01-02', 100),
+        record('2024-01-03', -30),
+        record('2024-03-01', 20.5)
+      ],
+      2024
+    )
+
+    expect(calendar.days).toHaveLength(3)
+    expect(calendar.total).toBeCloseTo(90.5)
+    expect(calendar.months).toHaveLength(12)
+    expect(calendar.months[0]).toEqual({ period: '2024-01', profit: 70, days: 2 })
+    expect(calendar.months[1]).toEqual({ period: '2024-02', profit: 0, days: 0 })
+    expect(calendar.years).toEqual([
+      { period: '2023', profit: 50, days: 1 },
+      { period: '2024', profit: 90.5, days: 3 }
+    ])
+  })
+})
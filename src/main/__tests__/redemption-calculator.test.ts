@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import type { PositionLot } from '@shared/types'
+import { RedemptionCalculator } from '../calculator/redemption-calculator'
+
+// 常见 A 类份额费率：7 天内 1.5%，1 年内 0.5%，2 年内 0.25%，之后免费
+const TIERS = [
+  { minDays: 0, rate: 1.5 },
+  { minDays: 7, rate: 0.5 },
+  { minDays: 365, rate: 0.25 },
+  { minDays: 730, rate: 0 }
+]
+
+function createLot(date: string, shares = 1000, cost = 1000): PositionLot {
+  return { transactionId: date, date, shares, cost }
+}
+
+describe('RedemptionCalculator', () => {
+  const calculator = new RedemptionCalculator()
+
+  it('should pick the tier by holding days', () => {
+    expect(calculator.rateFor(TIERS, 0)).toBe(1.5)
+    expect(calculator.rateFor(TIERS, 6)).toBe(1.5)
+    expect(calculator.rateFor(TIERS, 7)).toBe(0.5)
+    expect(calculator.rateFor(TIERS, 729)).toBe(0.25)
+    expect(calculator.rateFor(TIERS, 1000)).toBe(0)
+    expect(calculator.rateFor([], 3)).toBe(0)
+  })
+
+  it('should quote fees and proceeds per lot', () => {
+    const [lot] = calculator.quoteLots([createLot('2024-03-01')], TIERS, 1.2, '2024-03-05')
+
+    expect(lot.holdingDays).toBe(4)
+    expect(lot.feeRate).toBe(1.5)
+    expect(lot.value).toBe(1200)
+    expect(lot.fee).toBe(18)
+    expect(lot.proceeds).toBe(1182)
+    expect(lot.profit).toBe(182)
+  })
+
+  it('should give the date each lot crosses into a lower tier', () => {
+    const lots = calculator.quoteLots(
+      [createLot('2023-01-10'), createLot('2024-02-26'), createLot('2021-01-04')],
+      TIERS,
+      1,
+      '2024-03-01'
+    )
+
+    expect(lots.map((l) => [l.nextTierDate, l.nextTierRate])).toEqual([
+      ['2025-01-09', 0],
+      ['2024-03-04', 0.5],
+      [null, null]
+    ])
+  })
+
+  it('should skip tiers that do not lower the rate', () => {
+    const [lot] = calculator.quoteLots(
+      [createLot('2024-03-01')],
+      [
+        { minDays: 0, rate: 0.5 },
+        { minDays: 30, rate: 0.5 },
+        { minDays: 90, rate: 0 }
+      ],
+      1,
+      '2024-03-05'
+    )
+
+    expect(lot.nextTierDate).toBe('2024-05-30')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { rankSearchResults, scoreSearchItem } from '../fetchers/search-rank'
+import type { FundSearchItem } from '../fetchers/providers'
+
+function item(code: string, name: string, pinyin?: string): FundSearchItem {
+  return { code, name, type: '混合型', pinyin }
+}
+
+describe('search ranking', () => {
+  const items = [
+    item('161726', '招商国证生物医药指数', 'zsgzswyyzs'),
+    item('012414', '招商中证白酒指数C', 'zszzbjzsc'),
+    item('161725', '招商中证白酒指数', 'zszzbjzs'),
+    item('000001', '华夏成长混合', 'hxczhh')
+  ]
+
+  it('should rank exact code and code prefix first', () => {
+    expect(rankSearchResults(items, '161725', 10)[0].code).toBe('161725')
+    const ranked = rankSearchResults(items, '1617', 10)
+    expect(ranked.slice(0, 2).map((f) => f.code)).toEqual(['161725', '161726'])
+  })
+
+  it('should match pinyin initials', () => {
+    const ranked = rankSearchResults(items, 'zszzbj', 10)
+    expect(ranked.slice(0, 2).map((f) => f.code)).toEqual(['161725', '012414'])
+  })
+
+  it('should match by name and keep upstream-only hits last', () => {
+    expect(scoreSearchItem(items[2], '招商')).toBeGreaterThan(scoreSearchItem(items[3], '招商'))
+    expect(scoreSearchItem(items[1], '白酒')).toBe(40)
+  })
+
+  it('should remove duplicates and respect limit', () => {
+    const ranked = rankSearchResults([...items, items[0]], '招商', 2)
+    expect(ranked).toHaveLength(2)
+    expect(new Set(ranked.map((f) => f.code)).size).toBe(2)
+  })
+})
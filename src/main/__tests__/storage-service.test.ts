@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Fund } from '@shared/types'
+
+vi.mock('electron-store', () => ({
+  default: class {
+    private data: Record<string, unknown>
+
+    constructor(options: { defaults: Record<string, unknown> }) {
+      this.data = JSON.parse(JSON.stringify(options.defaults))
+    }
+
+    get(key: string): unknown {
+      return this.data[key]
+    }
+
+    set(key: string, value: unknown): void {
+      // 与真实存储一致，写入时序列化（undefined 字段被丢弃）
+      this.data[key] = JSON.parse(JSON.stringify(value))
+    }
+  }
+}))
+
+const { StorageService } = await import('../services/storage-service')
+
+function createFund(code: string): Fund {
+  return {
+    code,
+    name: `测试基金${code}`,
+    netValue: 1.5,
+    netValueDate: '2024-01-01',
+    estimatedValue: 1.5,
+    estimatedChange: 0,
+    updateTime: '2024-01-01T07:00:00.000Z',
+    holdings: []
+  }
+}
+
+describe('StorageService', () => {
+  let storage: InstanceType<typeof StorageService>
+
+  beforeEach(() => {
+    storage = new StorageService()
+  })
+
+  it('should keep group and tags through the watchlist round-trip', () => {
+    storage.saveWatchlist([
+      { ...createFund('000001'), group: '核心', tags: ['科技', '观察中'] },
+      createFund('000002')
+    ])
+
+    const [tagged, plain] = storage.getWatchlist()
+
+    expect(tagged.group).toBe('核心')
+    expect(tagged.tags).toEqual(['科技', '观察中'])
+    expect(plain.group).toBeUndefined()
+    expect(plain.tags).toEqual([])
+  })
+
+  it('should persist groups separately from funds', () => {
+    storage.saveGroups(['核心', '卫星'])
+
+    expect(storage.getGroups()).toEqual(['核心', '卫星'])
+  })
+})
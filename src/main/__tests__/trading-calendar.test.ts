@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { TradingCalendar } from '../calendar/trading-calendar'
+
+describe('TradingCalendar', () => {
+  const calendar = new TradingCalendar()
+
+  it('should close on weekends, including make-up working weekends', () => {
+    expect(calendar.isTradingDay('2024-10-11')).toBe(true)
+    // 2024-10-12 为国庆调休上班的周六，交易所仍休市
+    expect(calendar.isTradingDay('2024-10-12')).toBe(false)
+    expect(calendar.isTradingDay(new Date(2024, 9, 13))).toBe(false)
+  })
+
+  it('should close on bundled holidays', () => {
+    expect(calendar.isTradingDay('2024-02-12')).toBe(false)
+    expect(calendar.isTradingDay('2025-10-08')).toBe(false)
+    expect(calendar.isTradingDay(new Date(2025, 9, 9, 10, 0))).toBe(true)
+  })
+
+  it('should find adjacent trading days across holidays', () => {
+    expect(calendar.nextTradingDay('2024-09-30')).toBe('2024-10-08')
+    expect(calendar.previousTradingDay('2024-10-08')).toBe('2024-09-30')
+    expect(calendar.addTradingDays('2024-10-01', 0)).toBe('2024-10-08')
+    expect(calendar.addTradingDays('2024-09-27', 2)).toBe('2024-10-08')
+  })
+
+  it('should treat weekdays as trading days for years without data until merged', () => {
+    expect(calendar.isTradingDay('2031-01-01')).toBe(true)
+
+    const merged = new TradingCalendar()
+    merged.merge({ holidays: { '2031': ['2031-01-01'] } })
+    expect(merged.isTradingDay('2031-01-01')).toBe(false)
+    expect(merged.getCoveredYears()).toContain(2031)
+  })
+})
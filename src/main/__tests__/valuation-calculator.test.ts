@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import type { Holding, StockQuote } from '@shared/types'
+import { ValuationCalculator } from '../calculator/valuation-calculator'
+import { isUpstreamStale } from '../fetchers/fund-fetcher'
+import { resetMarketClock } from '../calendar'
+
+function createHolding(stockCode: string, ratio: number): Holding {
+  return { stockCode, stockName: stockCode, ratio, change: 0, price: 0 }
+}
+
+function createQuote(code: string, change: number): StockQuote {
+  return { code, name: code, price: 10, change, changeAmount: 0 }
+}
+
+describe('ValuationCalculator', () => {
+  const calculator = new ValuationCalculator()
+
+  it('should scale the weighted change up to full coverage', () => {
+    // 覆盖 50% 的持仓加权涨 1%，按同涨同跌推算全部资产涨 2%
+    expect(calculator.normalizeChange(1, 50)).toBeCloseTo(2)
+    expect(calculator.normalizeChange(-0.6, 60)).toBeCloseTo(-1)
+  })
+
+  it('should return zero change without covered holdings', () => {
+    expect(calculator.normalizeChange(0, 0)).toBe(0)
+
+    const valuation = calculator.calculateValuation(
+      { netValue: 1.5, holdings: [createHolding('600000', 10)] },
+      []
+    )
+    expect(valuation.estimatedChange).toBe(0)
+    expect(valuation.estimatedValue).toBe(1.5)
+    expect(valuation.coveredRatio).toBe(0)
+    expect(valuation.isComplete).toBe(false)
+  })
+
+  it('should value the fund from quoted holdings only', () => {
+    const valuation = calculator.calculateValuation(
+      {
+        netValue: 2,
+        holdings: [
+          createHolding('600000', 30),
+          createHolding('000001', 10),
+          createHolding('300750', 10)
+        ]
+      },
+      [createQuote('600000', 2), createQuote('000001', -2)]
+    )
+
+    // (2 × 30% − 2 × 10%) ÷ 40% = 1%
+    expect(valuation.coveredRatio).toBe(40)
+    expect(valuation.estimatedChange).toBeCloseTo(1)
+    expect(valuation.estimatedValue).toBeCloseTo(2.02)
+    expect(valuation.isComplete).toBe(false)
+  })
+})
+
+describe('isUpstreamStale', () => {
+  const now = Date.parse('2024-03-05T14:00:00+08:00')
+
+  afterEach(() => {
+    resetMarketClock()
+  })
+
+  it('should treat a missing or unparseable valuation as stale', () => {
+    expect(isUpstreamStale(undefined, now)).toBe(true)
+    expect(
+      isUpstreamStale(
+        { estimatedValue: 1, estimatedChange: 0, updateTime: '--', isComplete: true },
+        now
+      )
+    ).toBe(true)
+  })
+
+  it('should parse upstream times as Beijing time', () => {
+    const valuation = (updateTime: string) => ({
+      estimatedValue: 1,
+      estimatedChange: 0,
+      updateTime,
+      isComplete: true
+    })
+
+    expect(isUpstreamStale(valuation('2024-03-05 13:50'), now)).toBe(false)
+    expect(isUpstreamStale(valuation('2024-03-05 13:45'), now)).toBe(false)
+    expect(isUpstreamStale(valuation('2024-03-05 13:44'), now)).toBe(true)
+  })
+
+  it('should default to the market clock', () => {
+    resetMarketClock({ now: () => new Date(now) })
+
+    expect(
+      isUpstreamStale({
+        estimatedValue: 1,
+        estimatedChange: 0,
+        updateTime: '2024-03-05 11:30',
+        isComplete: true
+      })
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,48 @@
+import type { AccuracyStats, EstimateRecord } from '@shared/types'
+
+/**
+ * 估值准确度计算器
+ * 比较收盘估值与公布的真实涨跌幅
+ */
+export class AccuracyCalculator {
+  /**
+   * 计算准确度统计
+   * @param records 对照记录
+   * @param pick 取出待评估的估算涨跌幅，返回 undefined 的记录不计入样本
+   * @returns 统计结果，无有效样本时返回 null
+   */
+  calculate(
+    records: EstimateRecord[],
+    pick: (record: EstimateRecord) => number | undefined = (r) => r.estimatedChange
+  ): AccuracyStats | null {
+    let sampleSize = 0
+    let absErrorSum = 0
+    let errorSum = 0
+    let hits = 0
+
+    for (const record of records) {
+      const estimated = pick(record)
+      if (estimated === undefined || isNaN(estimated)) continue
+
+      const error = estimated - record.realChange
+      sampleSize++
+      absErrorSum += Math.abs(error)
+      errorSum += error
+      if (Math.sign(estimated) === Math.sign(record.realChange)) {
+        hits++
+      }
+    }
+
+    if (sampleSize === 0) return null
+
+    return {
+      sampleSize,
+      meanAbsoluteError: absErrorSum / sampleSize,
+      bias: errorSum / sampleSize,
+      directionHitRate: (hits / sampleSize) * 100
+    }
+  }
+}
+
+// 导出单例实例
+export const accuracyCalculator = new AccuracyCalculator()
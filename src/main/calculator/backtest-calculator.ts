@@ -0,0 +1,233 @@
+import type { NetValueHistory } from '../fetchers'
+import type {
+  BacktestConfig,
+  BacktestPoint,
+  BacktestResult,
+  BacktestTrade,
+  PlanFrequency
+} from '@shared/types'
+import { daysBetween } from '../utils'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 计算下一个名义扣款日
+ * 按月扣款固定为开始日期的日号，当月没有该日时取月末
+ */
+function nextScheduledDate(start: string, period: number, frequency: PlanFrequency): string {
+  const d = new Date(`${start}T00:00:00Z`)
+  if (frequency === 'monthly') {
+    const day = d.getUTCDate()
+    d.setUTCDate(1)
+    d.setUTCMonth(d.getUTCMonth() + period)
+    const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate()
+    d.setUTCDate(Math.min(day, lastDay))
+  } else {
+    d.setUTCDate(d.getUTCDate() + period * (frequency === 'biweekly' ? 14 : 7))
+  }
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * 年化内部收益率（XIRR），二分法求解
+ * @returns 年化收益率小数，现金流无法求解时为 null
+ */
+function xirr(flows: { date: string; amount: number }[]): number | null {
+  if (flows.length < 2) return null
+  const base = flows[0].date
+  const years = flows.map((f) => daysBetween(base, f.date) / 365)
+  if (years[years.length - 1] <= 0) return null
+
+  const npv = (rate: number) =>
+    flows.reduce((acc, f, i) => acc + f.amount / Math.pow(1 + rate, years[i]), 0)
+
+  let low = -0.9999
+  let high = 100
+  let npvLow = npv(low)
+  if (npvLow * npv(high) > 0) return null
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const npvMid = npv(mid)
+    if (Math.abs(npvMid) < 1e-9) return mid
+    if (npvLow * npvMid < 0) {
+      high = mid
+    } else {
+      low = mid
+      npvLow = npvMid
+    }
+  }
+  return (low + high) / 2
+}
+
+/**
+ * 策略回测计算器
+ * 在历史单位净值上重放一次性买入、定期定额和价值平均策略
+ */
+export class BacktestCalculator {
+  /**
+   * 执行回测
+   * 名义扣款日不是净值日期时，顺延到之后的第一个净值日期；赎回不计手续费
+   * @param history 历史净值（按日期升序）
+   * @param config 回测参数
+   * @returns 回测结果，区间内没有净值数据时返回 null
+   */
+  run(history: NetValueHistory[], config: BacktestConfig): BacktestResult | null {
+    this.validate(config)
+
+    const points = history.filter(
+      (p) => p.value > 0 && p.date >= config.startDate && p.date <= config.endDate
+    )
+    if (points.length === 0) return null
+
+    const trades: BacktestTrade[] = []
+    const curve: BacktestPoint[] = []
+    const cashFlows: { date: string; amount: number }[] = []
+    let shares = 0
+    let invested = 0
+    let totalInvested = 0
+    let totalWithdrawn = 0
+    let period = 0
+    let nextDate = config.startDate
+
+    // 扣除追加投入后的回撤：资金进出时同步调整前高
+    let peak = 0
+    let peakDate: string | null = null
+    let maxDrawdown = 0
+    let drawdownPeakDate: string | null = null
+    let drawdownTroughDate: string | null = null
+
+    for (const point of points) {
+      let netFlow = 0
+
+      if (point.date >= nextDate && (config.strategy !== 'lumpSum' || period === 0)) {
+        period++
+        const trade = this.tradeFor(config, period, shares, point)
+        if (trade) {
+          trades.push(trade)
+          shares += trade.shares
+          invested += trade.amount
+          cashFlows.push({ date: point.date, amount: -trade.amount })
+          if (trade.amount > 0) {
+            totalInvested += trade.amount
+            netFlow = trade.amount - trade.fee
+          } else {
+            totalWithdrawn -= trade.amount
+            netFlow = trade.amount
+          }
+        }
+        // 多个名义扣款日顺延到同一净值日期时只执行一次
+        while (nextDate <= point.date) {
+          nextDate = nextScheduledDate(config.startDate, period, config.frequency)
+          if (nextDate <= point.date) period++
+        }
+      }
+
+      const value = shares * point.value
+      curve.push({ date: point.date, invested, value })
+
+      peak += netFlow
+      if (value >= peak) {
+        peak = value
+        peakDate = point.date
+      } else if (peak > 0) {
+        const drawdown = (1 - value / peak) * 100
+        if (drawdown > maxDrawdown) {
+          maxDrawdown = drawdown
+          drawdownPeakDate = peakDate
+          drawdownTroughDate = point.date
+        }
+      }
+    }
+
+    const last = curve[curve.length - 1]
+    const finalValue = last.value
+    const profit = finalValue + totalWithdrawn - totalInvested
+    const irr = xirr([...cashFlows, { date: last.date, amount: finalValue }])
+
+    return {
+      config,
+      startDate: points[0].date,
+      endDate: last.date,
+      points: curve,
+      trades,
+      totalInvested,
+      totalWithdrawn,
+      finalValue,
+      profit,
+      returnRate: totalInvested > 0 ? (profit / totalInvested) * 100 : 0,
+      irr: irr === null ? null : irr * 100,
+      maxDrawdown,
+      drawdownPeakDate,
+      drawdownTroughDate
+    }
+  }
+
+  /**
+   * 计算第 period 期的交易，价值平均策略市值恰好达到目标时不交易
+   */
+  private tradeFor(
+    config: BacktestConfig,
+    period: number,
+    shares: number,
+    point: NetValueHistory
+  ): BacktestTrade | null {
+    const feeFactor = 1 + config.feeRate / 100
+    let amount = config.amount
+
+    if (config.strategy === 'valueAveraging') {
+      const gap = config.amount * period - shares * point.value
+      if (gap === 0) return null
+      if (gap < 0) {
+        return {
+          date: point.date,
+          amount: gap,
+          netValue: point.value,
+          shares: gap / point.value,
+          fee: 0
+        }
+      }
+      // 补足目标市值所需的申购金额（含手续费）
+      amount = gap * feeFactor
+    }
+
+    const netAmount = amount / feeFactor
+    return {
+      date: point.date,
+      amount,
+      netValue: point.value,
+      shares: netAmount / point.value,
+      fee: amount - netAmount
+    }
+  }
+
+  /**
+   * 校验回测参数
+   */
+  private validate(config: BacktestConfig): void {
+    if (!(config.amount > 0)) {
+      throw new Error('投入金额必须大于 0')
+    }
+    if (!(config.feeRate >= 0 && config.feeRate < 100)) {
+      throw new Error('费率无效')
+    }
+    if (!DATE_PATTERN.test(config.startDate) || !DATE_PATTERN.test(config.endDate)) {
+      throw new Error('回测区间格式无效')
+    }
+    if (config.startDate > config.endDate) {
+      throw new Error('开始日期不能晚于结束日期')
+    }
+    if (!['lumpSum', 'fixedAmount', 'valueAveraging'].includes(config.strategy)) {
+      throw new Error('回测策略无效')
+    }
+    if (
+      config.strategy !== 'lumpSum' &&
+      !['weekly', 'biweekly', 'monthly'].includes(config.frequency)
+    ) {
+      throw new Error('定投频率无效')
+    }
+  }
+}
+
+// 导出单例实例
+export const backtestCalculator = new BacktestCalculator()
@@ -0,0 +1,120 @@
+import type { CalibrationModel, EstimateRecord, Valuation } from '@shared/types'
+
+/**
+ * 拟合样本：x 为前十大持仓加权涨跌幅，y 为真实涨跌幅（均为百分比）
+ */
+export interface CalibrationSample {
+  date: string
+  x: number
+  y: number
+}
+
+/** 拟合所需的最少样本数 */
+export const MIN_CALIBRATION_SAMPLES = 5
+
+/** 缩放系数上限，避免少量异常样本拟合出离谱的放大倍数 */
+const MAX_SCALE = 4
+
+/**
+ * 估值校准计算器
+ * 前十大持仓之外约四到五成的资产没有行情，这里用最小二乘拟合
+ * 真实涨跌幅 = scale × 加权涨跌幅 + offset，补偿未覆盖部分的影响
+ */
+export class CalibrationCalculator {
+  /**
+   * 从估值对照记录中提取拟合样本
+   * 加权涨跌幅由归一化后的自算涨跌幅和覆盖占比还原
+   * @param records 对照记录（按日期升序）
+   * @param windowDays 只取最近的交易日数
+   */
+  extractSamples(records: EstimateRecord[], windowDays: number): CalibrationSample[] {
+    const samples: CalibrationSample[] = []
+    for (const record of records) {
+      if (record.selfChange === undefined || !record.selfCoveredRatio) continue
+      samples.push({
+        date: record.date,
+        x: (record.selfChange * record.selfCoveredRatio) / 100,
+        y: record.realChange
+      })
+    }
+    return samples.slice(-windowDays)
+  }
+
+  /**
+   * 最小二乘拟合
+   * @returns 校准模型，样本不足时返回 null
+   */
+  fit(samples: CalibrationSample[]): CalibrationModel | null {
+    const n = samples.length
+    if (n < MIN_CALIBRATION_SAMPLES) return null
+
+    const meanX = samples.reduce((acc, s) => acc + s.x, 0) / n
+    const meanY = samples.reduce((acc, s) => acc + s.y, 0) / n
+
+    let sxx = 0
+    let sxy = 0
+    let syy = 0
+    for (const s of samples) {
+      sxx += (s.x - meanX) ** 2
+      sxy += (s.x - meanX) * (s.y - meanY)
+      syy += (s.y - meanY) ** 2
+    }
+
+    // 加权涨跌幅几乎不变时无法估计斜率
+    if (sxx < 1e-9) return null
+
+    const scale = Math.min(Math.max(sxy / sxx, 0), MAX_SCALE)
+    const offset = meanY - scale * meanX
+
+    let sse = 0
+    for (const s of samples) {
+      sse += (s.y - (scale * s.x + offset)) ** 2
+    }
+    const rSquared = syy > 0 ? Math.max(0, 1 - sse / syy) : 0
+
+    return {
+      scale,
+      offset,
+      sampleSize: n,
+      rSquared,
+      fittedThrough: samples[n - 1].date
+    }
+  }
+
+  /**
+   * 应用校准模型
+   * @param model 校准模型
+   * @param weightedChange 当前的加权涨跌幅（百分比，未归一化）
+   * @returns 校准后的涨跌幅（百分比）
+   */
+  apply(model: CalibrationModel, weightedChange: number): number {
+    return model.scale * weightedChange + model.offset
+  }
+
+  /**
+   * 根据持仓自算估值生成校准估值
+   * @param netValue 上一交易日净值
+   * @param selfValuation 持仓自算估值（涨跌幅已按覆盖占比归一化）
+   * @param model 校准模型
+   */
+  calibrateValuation(
+    netValue: number,
+    selfValuation: Valuation,
+    model: CalibrationModel
+  ): Valuation {
+    const coveredRatio = selfValuation.coveredRatio ?? 0
+    const weightedChange = (selfValuation.estimatedChange * coveredRatio) / 100
+    const estimatedChange = this.apply(model, weightedChange)
+
+    return {
+      estimatedValue: netValue * (1 + estimatedChange / 100),
+      estimatedChange,
+      updateTime: selfValuation.updateTime,
+      isComplete: selfValuation.isComplete,
+      coveredRatio
+    }
+  }
+}
+
+// 导出单例实例
+export const calibrationCalculator = new CalibrationCalculator()
@@ -4,3 +4,11 @@
 
 export { ValuationCalculator, valuationCalculator } from './valuation-calculator'
 export type { IValuationService } from './valuation-calculator'
+export { AccuracyCalculator, accuracyCalculator } from './accuracy-calculator'
+export { CalibrationCalculator, calibrationCalculator } from './calibration-calculator'
+export type { CalibrationSample } from './calibration-calculator'
+export { PositionCalculator, positionCalculator, sortTransactions } from './position-calculator'
+export { ProfitCalculator, profitCalculator } from './profit-calculator'
+export { PerformanceCalculator, performanceCalculator } from './performance-calculator'
+export { BacktestCalculator, backtestCalculator } from './backtest-calculator'
+export { RedemptionCalculator, redemptionCalculator } from './redemption-calculator'
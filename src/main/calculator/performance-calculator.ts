@@ -0,0 +1,190 @@
+import type { NetValueHistory } from '../fetchers'
+import type {
+  BenchmarkComparison,
+  BenchmarkIndex,
+  NormalizedPoint,
+  PerformanceMetrics
+} from '@shared/types'
+
+// 每年交易日数，用于年化波动率
+const TRADING_DAYS_PER_YEAR = 250
+
+// 无风险收益率 (百分比)，用于夏普比率
+const RISK_FREE_RATE = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 样本方差
+ */
+function variance(values: number[]): number {
+  return covariance(values, values)
+}
+
+/**
+ * 样本协方差，样本不足两个时为 0
+ */
+function covariance(a: number[], b: number[]): number {
+  if (a.length < 2) return 0
+  const meanA = a.reduce((acc, v) => acc + v, 0) / a.length
+  const meanB = b.reduce((acc, v) => acc + v, 0) / b.length
+  return a.reduce((acc, v, i) => acc + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1)
+}
+
+/**
+ * 风险收益指标计算器
+ * 基于历史单位净值计算区间收益、波动、回撤等指标
+ */
+export class PerformanceCalculator {
+  /**
+   * 计算区间风险收益指标
+   * @param history 历史净值（按日期升序）
+   * @returns 指标，有效净值不足两条时返回 null
+   */
+  calculate(history: NetValueHistory[]): PerformanceMetrics | null {
+    const points = history.filter((p) => p.value > 0)
+    if (points.length < 2) return null
+
+    const first = points[0]
+    const last = points[points.length - 1]
+
+    const returns: number[] = []
+    for (let i = 1; i < points.length; i++) {
+      returns.push(points[i].value / points[i - 1].value - 1)
+    }
+
+    // 年化收益按自然日复利折算
+    const totalReturn = last.value / first.value - 1
+    const calendarDays = Math.max(
+      (Date.parse(`${last.date}T00:00:00Z`) - Date.parse(`${first.date}T00:00:00Z`)) / DAY_MS,
+      1
+    )
+    const annualizedReturn = (Math.pow(1 + totalReturn, 365 / calendarDays) - 1) * 100
+
+    // 年化波动率 = 日收益样本标准差 × √250
+    const annualizedVolatility = Math.sqrt(variance(returns) * TRADING_DAYS_PER_YEAR) * 100
+
+    const drawdown = this.maxDrawdown(points)
+
+    return {
+      startDate: first.date,
+      endDate: last.date,
+      tradingDays: returns.length,
+      totalReturn: totalReturn * 100,
+      annualizedReturn,
+      annualizedVolatility,
+      ...drawdown,
+      sharpeRatio:
+        annualizedVolatility > 0
+          ? (annualizedReturn - RISK_FREE_RATE) / annualizedVolatility
+          : null,
+      calmarRatio: drawdown.maxDrawdown > 0 ? annualizedReturn / drawdown.maxDrawdown : null,
+      winRate: (returns.filter((r) => r > 0).length / returns.length) * 100
+    }
+  }
+
+  /**
+   * 将净值归一化为相对区间起点的涨跌幅，便于多只基金叠加对比
+   * @param history 历史净值（按日期升序）
+   */
+  normalize(history: NetValueHistory[]): NormalizedPoint[] {
+    const points = history.filter((p) => p.value > 0)
+    if (points.length === 0) return []
+    const base = points[0].value
+    return points.map((p) => ({ date: p.date, change: (p.value / base - 1) * 100 }))
+  }
+
+  /**
+   * 计算相对比较基准的超额表现
+   * @param fundHistory 基金历史净值（按日期升序）
+   * @param indexHistory 指数历史点位（按日期升序）
+   * @returns 共同日期不足两天时返回 null
+   */
+  compareWithBenchmark(
+    fundHistory: NetValueHistory[],
+    indexHistory: NetValueHistory[],
+    index: BenchmarkIndex,
+    isDefault: boolean
+  ): BenchmarkComparison | null {
+    const indexMap = new Map(indexHistory.filter((p) => p.value > 0).map((p) => [p.date, p.value]))
+    const pairs = fundHistory
+      .filter((p) => p.value > 0 && indexMap.has(p.date))
+      .map((p) => ({ date: p.date, fund: p.value, index: indexMap.get(p.date)! }))
+    if (pairs.length < 2) return null
+
+    const first = pairs[0]
+    const last = pairs[pairs.length - 1]
+    const fundReturns: number[] = []
+    const indexReturns: number[] = []
+    for (let i = 1; i < pairs.length; i++) {
+      fundReturns.push(pairs[i].fund / pairs[i - 1].fund - 1)
+      indexReturns.push(pairs[i].index / pairs[i - 1].index - 1)
+    }
+
+    const excessDaily = fundReturns.map((r, i) => r - indexReturns[i])
+    const trackingError = Math.sqrt(variance(excessDaily) * TRADING_DAYS_PER_YEAR) * 100
+    const meanExcess = excessDaily.reduce((acc, r) => acc + r, 0) / excessDaily.length
+    const indexVariance = variance(indexReturns)
+
+    const fundReturn = (last.fund / first.fund - 1) * 100
+    const benchmarkReturn = (last.index / first.index - 1) * 100
+
+    return {
+      index,
+      isDefault,
+      series: pairs.map((p) => ({ date: p.date, change: (p.index / first.index - 1) * 100 })),
+      fundReturn,
+      benchmarkReturn,
+      excessReturn: fundReturn - benchmarkReturn,
+      trackingError,
+      informationRatio:
+        trackingError > 0 ? (meanExcess * TRADING_DAYS_PER_YEAR * 100) / trackingError : null,
+      beta: indexVariance > 0 ? covariance(fundReturns, indexReturns) / indexVariance : null,
+      outperformRate: (excessDaily.filter((r) => r > 0).length / excessDaily.length) * 100
+    }
+  }
+
+  /**
+   * 计算最大回撤及其起止日期
+   */
+  private maxDrawdown(
+    points: NetValueHistory[]
+  ): Pick<
+    PerformanceMetrics,
+    'maxDrawdown' | 'drawdownPeakDate' | 'drawdownTroughDate' | 'drawdownRecoveryDate'
+  > {
+    let peak = points[0]
+    let maxDrawdown = 0
+    let peakDate: string | null = null
+    let troughDate: string | null = null
+    let peakValue = 0
+
+    for (const point of points) {
+      if (point.value > peak.value) {
+        peak = point
+        continue
+      }
+      const drawdown = (1 - point.value / peak.value) * 100
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown
+        peakDate = peak.date
+        peakValue = peak.value
+        troughDate = point.date
+      }
+    }
+
+    const recovery = troughDate
+      ? points.find((p) => p.date > troughDate! && p.value >= peakValue)
+      : undefined
+
+    return {
+      maxDrawdown,
+      drawdownPeakDate: peakDate,
+      drawdownTroughDate: troughDate,
+      drawdownRecoveryDate: recovery?.date ?? null
+    }
+  }
+}
+
+// 导出单例实例
+export const performanceCalculator = new PerformanceCalculator()
@@ -0,0 +1,162 @@
+import type { CostMethod, Position, PositionLot, Transaction } from '@shared/types'
+import { round2 } from '../utils'
+
+/** 份额比较的容差，基金份额保留两位小数 */
+const SHARE_EPSILON = 0.005
+
+/**
+ * 按确认日期排序，同一天按录入时间排序
+ */
+export function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  )
+}
+
+/**
+ * 持仓计算器
+ * 按交易记录依次推算份额、成本和已实现收益
+ *
+ * - 申购按外扣法计算：净申购金额 = 申购金额 / (1 + 费率)，份额 = 净申购金额 / 确认净值，
+ *   手续费计入成本
+ * - 赎回所得 = 份额 × 确认净值 × (1 - 费率)；份额始终按先进先出从最早的批次扣减
+ *   （与赎回费按持有期计算的规则一致），成本按所选方式结转
+ * - 红利再投资视为分红收入并以分红金额作为新批次的成本
+ */
+export class PositionCalculator {
+  /**
+   * 推算持仓
+   * @param transactions 交易记录
+   * @param method 成本计算方式
+   * @throws 赎回份额超过当时持有份额时抛出错误
+   */
+  calculate(transactions: Transaction[], method: CostMethod = 'fifo'): Position {
+    let lots: PositionLot[] = []
+    let realizedProfit = 0
+    let totalInvested = 0
+    let totalFees = 0
+
+    for (const tx of sortTransactions(transactions)) {
+      switch (tx.type) {
+        case 'buy': {
+          const amount = tx.amount ?? 0
+          const netAmount = amount / (1 + (tx.feeRate ?? 0) / 100)
+          lots.push({
+            transactionId: tx.id,
+            date: tx.date,
+            shares: this.sharesOf(tx, netAmount),
+            cost: amount
+          })
+          totalInvested += amount
+          totalFees += amount - netAmount
+          break
+        }
+
+        case 'sell': {
+          const shares = tx.shares ?? 0
+          const held = lots.reduce((acc, lot) => acc + lot.shares, 0)
+          if (shares > held + SHARE_EPSILON) {
+            throw new Error(
+              `${tx.date} 赎回 ${shares.toFixed(2)} 份超过持有份额 ${held.toFixed(2)}`
+            )
+          }
+
+          const gross = shares * (tx.netValue ?? 0)
+          const fee = (gross * (tx.feeRate ?? 0)) / 100
+          const heldCost = lots.reduce((acc, lot) => acc + lot.cost, 0)
+          const { remaining, removedCost } = this.consumeLots(lots, shares)
+
+          const costOfSold =
+            method === 'average' && held > 0 ? (heldCost * shares) / held : removedCost
+          lots = remaining
+          if (method === 'average') {
+            lots = this.spreadCost(lots, heldCost - costOfSold)
+          }
+
+          realizedProfit += gross - fee - costOfSold
+          totalFees += fee
+          break
+        }
+
+        case 'dividend':
+          realizedProfit += tx.amount ?? 0
+          break
+
+        case 'reinvest': {
+          const amount = tx.amount ?? 0
+          lots.push({
+            transactionId: tx.id,
+            date: tx.date,
+            shares: this.sharesOf(tx, amount),
+            cost: amount
+          })
+          realizedProfit += amount
+          break
+        }
+      }
+    }
+
+    const shares = round2(lots.reduce((acc, lot) => acc + lot.shares, 0))
+    const cost = lots.reduce((acc, lot) => acc + lot.cost, 0)
+
+    return {
+      shares,
+      cost: round2(cost),
+      averageCost: shares > 0 ? cost / shares : 0,
+      realizedProfit: round2(realizedProfit),
+      totalInvested: round2(totalInvested),
+      totalFees: round2(totalFees),
+      lots
+    }
+  }
+
+  /**
+   * 交易对应的份额
+   * 赎回份额由用户录入；申购和再投资由金额和确认净值推算
+   */
+  private sharesOf(tx: Transaction, netAmount: number): number {
+    if (tx.shares !== undefined) return tx.shares
+    if (!tx.netValue) return 0
+    return round2(netAmount / tx.netValue)
+  }
+
+  /**
+   * 按先进先出扣减份额
+   */
+  private consumeLots(
+    lots: PositionLot[],
+    shares: number
+  ): { remaining: PositionLot[]; removedCost: number } {
+    const remaining: PositionLot[] = []
+    let left = shares
+    let removedCost = 0
+
+    for (const lot of lots) {
+      if (left <= SHARE_EPSILON) {
+        remaining.push(lot)
+        continue
+      }
+      const take = Math.min(lot.shares, left)
+      const cost = lot.shares > 0 ? (lot.cost * take) / lot.shares : 0
+      left -= take
+      removedCost += cost
+      if (lot.shares - take > SHARE_EPSILON) {
+        remaining.push({ ...lot, shares: round2(lot.shares - take), cost: lot.cost - cost })
+      }
+    }
+
+    return { remaining, removedCost }
+  }
+
+  /**
+   * 移动加权平均：把剩余成本按份额均摊到各批次
+   */
+  private spreadCost(lots: PositionLot[], totalCost: number): PositionLot[] {
+    const shares = lots.reduce((acc, lot) => acc + lot.shares, 0)
+    if (shares <= 0) return []
+    return lots.map((lot) => ({ ...lot, cost: (totalCost * lot.shares) / shares }))
+  }
+}
+
+// 导出单例实例
+export const positionCalculator = new PositionCalculator()
@@ -0,0 +1,122 @@
+import type {
+  DailyProfitRecord,
+  Fund,
+  FundDailyProfit,
+  PeriodProfit,
+  ProfitCalendar
+} from '@shared/types'
+import { round2 } from '../utils'
+
+/**
+ * 每日收益计算器
+ * 生成收盘后的收益快照，并按月、按年汇总成收益日历
+ */
+export class ProfitCalculator {
+  /**
+   * 生成交易日的收益快照
+   * 只统计已公布该日真实净值且有持仓的基金；当日收益 = 份额 × (净值 − 前一日净值)
+   * @returns 快照，没有可统计的基金时返回 null
+   */
+  buildDailyRecord(funds: Fund[], date: string): DailyProfitRecord | null {
+    const items: FundDailyProfit[] = []
+
+    for (const fund of funds) {
+      if (!fund.isRealValue || fund.netValueDate !== date) continue
+      if (!fund.shares || fund.shares <= 0 || !(fund.netValue > 0)) continue
+      if (fund.estimatedChange === undefined || isNaN(fund.estimatedChange)) continue
+
+      const previousNetValue = fund.netValue / (1 + fund.estimatedChange / 100)
+      const positions = Object.fromEntries(
+        Object.entries(fund.positions ?? {})
+          .filter(([, position]) => position.shares > 0)
+          .map(([id, position]) => [id, position.shares])
+      )
+
+      items.push({
+        code: fund.code,
+        name: fund.name,
+        shares: fund.shares,
+        positions: Object.keys(positions).length > 0 ? positions : undefined,
+        netValue: fund.netValue,
+        change: fund.estimatedChange,
+        profit: round2(fund.shares * (fund.netValue - previousNetValue))
+      })
+    }
+
+    if (items.length === 0) return null
+    return { date, profit: round2(items.reduce((acc, f) => acc + f.profit, 0)), funds: items }
+  }
+
+  /**
+   * 合并同一交易日的两份快照
+   */
+  merge(record: DailyProfitRecord, addition: DailyProfitRecord): DailyProfitRecord {
+    const funds = [...record.funds, ...addition.funds]
+    return {
+      date: record.date,
+      profit: round2(funds.reduce((acc, f) => acc + f.profit, 0)),
+      funds
+    }
+  }
+
+  /**
+   * 取出某个组合的收益快照，收益按该组合持有的份额占比拆分
+   * @returns 该组合当日没有持仓时返回 null
+   */
+  forPortfolio(record: DailyProfitRecord, portfolioId: string): DailyProfitRecord | null {
+    const items: FundDailyProfit[] = []
+
+    for (const fund of record.funds) {
+      const shares = fund.positions?.[portfolioId] ?? 0
+      if (shares <= 0 || fund.shares <= 0) continue
+      items.push({
+        ...fund,
+        shares,
+        positions: { [portfolioId]: shares },
+        profit: round2((fund.profit * shares) / fund.shares)
+      })
+    }
+
+    if (items.length === 0) return null
+    return {
+      date: record.date,
+      profit: round2(items.reduce((acc, f) => acc + f.profit, 0)),
+      funds: items
+    }
+  }
+
+  /**
+   * 汇总某一年的收益日历
+   * @param records 收益快照（按日期升序）
+   * @param year 年份
+   */
+  summarize(records: DailyProfitRecord[], year: number): ProfitCalendar {
+    const prefix = String(year)
+    const days = records.filter((r) => r.date.startsWith(`${prefix}-`))
+
+    const months = Array.from({ length: 12 }, (_, i) =>
+      this.sumPeriod(`${prefix}-${String(i + 1).padStart(2, '0')}`, days)
+    )
+    const yearNames = [...new Set(records.map((r) => r.date.slice(0, 4)))].sort()
+
+    return {
+      year,
+      days,
+      months,
+      years: yearNames.map((name) => this.sumPeriod(name, records)),
+      total: round2(days.reduce((acc, r) => acc + r.profit, 0))
+    }
+  }
+
+  private sumPeriod(period: string, records: DailyProfitRecord[]): PeriodProfit {
+    const matched = records.filter((r) => r.date.startsWith(period))
+    return {
+      period,
+      profit: round2(matched.reduce((acc, r) => acc + r.profit, 0)),
+      days: matched.length
+    }
+  }
+}
+
+// 导出单例实例
+export const profitCalculator = new ProfitCalculator()
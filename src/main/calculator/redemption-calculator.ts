@@ -0,0 +1,63 @@
+import type { LotRedemption, PositionLot, RedemptionFeeTier } from '@shared/types'
+import { round2, daysBetween, addDays } from '../utils'
+
+/**
+ * 赎回费计算器
+ * 持有天数按份额确认日到赎回申请 T 日的自然日计算，达到档位下限即适用该档费率
+ */
+export class RedemptionCalculator {
+  /**
+   * 持有 days 天时适用的费率，没有费率表时按 0 计算
+   * @param tiers 费率档位（按 minDays 升序）
+   */
+  rateFor(tiers: RedemptionFeeTier[], days: number): number {
+    let rate = 0
+    for (const tier of tiers) {
+      if (tier.minDays > days) break
+      rate = tier.rate
+    }
+    return rate
+  }
+
+  /**
+   * 测算各持仓批次在 tradeDate 全部赎回的费用和到账金额
+   * @param lots 持仓批次（先进先出顺序）
+   * @param tiers 费率档位（按 minDays 升序）
+   * @param netValue 测算使用的净值
+   * @param tradeDate 赎回申请的 T 日
+   */
+  quoteLots(
+    lots: PositionLot[],
+    tiers: RedemptionFeeTier[],
+    netValue: number,
+    tradeDate: string
+  ): LotRedemption[] {
+    return lots.map((lot) => {
+      const holdingDays = Math.max(daysBetween(lot.date, tradeDate), 0)
+      const feeRate = this.rateFor(tiers, holdingDays)
+      const value = round2(lot.shares * netValue)
+      const fee = round2((value * feeRate) / 100)
+
+      // 之后第一个费率更低的档位
+      const next = tiers.find((t) => t.minDays > holdingDays && t.rate < feeRate)
+
+      return {
+        transactionId: lot.transactionId,
+        date: lot.date,
+        shares: lot.shares,
+        cost: lot.cost,
+        holdingDays,
+        feeRate,
+        value,
+        fee,
+        proceeds: round2(value - fee),
+        profit: round2(value - fee - lot.cost),
+        nextTierDate: next ? addDays(lot.date, next.minDays) : null,
+        nextTierRate: next ? next.rate : null
+      }
+    })
+  }
+}
+
+// 导出单例实例
+export const redemptionCalculator = new RedemptionCalculator()
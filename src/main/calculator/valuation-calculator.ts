@@ -4,7 +4,10 @@ import type { FundDetail, StockQuote, Valuation, Holding } from '@shared/types'
  * 估值计算服务接口
  */
 export interface IValuationService {
-  calculateValuation(fund: FundDetail, quotes: StockQuote[]): Valuation
+  calculateValuation(
+    fund: Pick<FundDetail, 'netValue' | 'holdings'>,
+    quotes: StockQuote[]
+  ): Valuation
 }
 
 /**
@@ -14,11 +17,16 @@ export interface IValuationService {
 export class ValuationCalculator implements IValuationService {
   /**
    * 计算基金估值
+   * 前十大持仓通常只占基金资产的一半左右，这里假设未覆盖部分与已覆盖持仓同涨同跌，
+   * 即加权涨跌幅 ÷ 有行情的持仓合计占比
    * @param fund 基金详情（包含持仓信息）
    * @param quotes 股票实时行情列表
    * @returns 估值结果
    */
-  calculateValuation(fund: FundDetail, quotes: StockQuote[]): Valuation {
+  calculateValuation(
+    fund: Pick<FundDetail, 'netValue' | 'holdings'>,
+    quotes: StockQuote[]
+  ): Valuation {
     // 创建股票代码到行情的映射，便于快速查找
     const quoteMap = new Map<string, StockQuote>()
     for (const quote of quotes) {
@@ -26,16 +34,23 @@ export class ValuationCalculator implements IValuationService {
     }
 
     // 计算加权涨跌幅
-    const { estimatedChange, isComplete } = this.calculateWeightedChange(fund.holdings, quoteMap)
+    const { estimatedChange, isComplete, coveredRatio } = this.calculateWeightedChange(
+      fund.holdings,
+      quoteMap
+    )
+
+    // 按覆盖占比归一化
+    const normalizedChange = this.normalizeChange(estimatedChange, coveredRatio)
 
     // 计算估值净值
-    const estimatedValue = this.calculateEstimatedValue(fund.netValue, estimatedChange)
+    const estimatedValue = this.calculateEstimatedValue(fund.netValue, normalizedChange)
 
     return {
       estimatedValue,
-      estimatedChange,
+      estimatedChange: normalizedChange,
       updateTime: new Date().toISOString(),
-      isComplete
+      isComplete,
+      coveredRatio
     }
   }
 
@@ -44,14 +59,15 @@ export class ValuationCalculator implements IValuationService {
    * 公式：Σ(股票涨跌幅 × 持仓占比)
    * @param holdings 持仓列表
    * @param quoteMap 股票行情映射
-   * @returns 加权涨跌幅和数据完整性标志
+   * @returns 加权涨跌幅、数据完整性标志和有行情的持仓合计占比（百分比）
    */
   calculateWeightedChange(
     holdings: Holding[],
     quoteMap: Map<string, StockQuote>
-  ): { estimatedChange: number; isComplete: boolean } {
+  ): { estimatedChange: number; isComplete: boolean; coveredRatio: number } {
     let totalChange = 0
     let matchedCount = 0
+    let coveredRatio = 0
 
     for (const holding of holdings) {
       const quote = quoteMap.get(holding.stockCode)
@@ -59,16 +75,30 @@ export class ValuationCalculator implements IValuationService {
         // 涨跌幅 × 持仓占比（占比已经是百分比形式，如 8.5 表示 8.5%）
         // 需要将占比转换为小数进行计算
         totalChange += quote.change * (holding.ratio / 100)
+        coveredRatio += holding.ratio
         matchedCount++
       }
     }
 
     return {
       estimatedChange: totalChange,
-      isComplete: matchedCount === holdings.length && holdings.length > 0
+      isComplete: matchedCount === holdings.length && holdings.length > 0,
+      coveredRatio
     }
   }
 
+  /**
+   * 按覆盖占比归一化加权涨跌幅
+   * 公式：加权涨跌幅 ÷ (覆盖占比 / 100)
+   * @param weightedChange 加权涨跌幅（百分比）
+   * @param coveredRatio 有行情的持仓合计占比（百分比）
+   * @returns 归一化后的涨跌幅，无覆盖时为 0
+   */
+  normalizeChange(weightedChange: number, coveredRatio: number): number {
+    if (coveredRatio <= 0) return 0
+    return weightedChange / (coveredRatio / 100)
+  }
+
   /**
    * 计算估值净值
    * 公式：昨日净值 × (1 + 估值涨跌幅)
@@ -0,0 +1,163 @@
+/**
+ * 沪深交易所休市安排（内置数据）
+ * 根据交易所每年发布的休市通知整理，只列出落在周一至周五的休市日；
+ * 周末无论是否调休上班，交易所一律不开市，因此调休日无需单独列出。
+ */
+
+/**
+ * 交易日历数据，可由外部日历文件提供以覆盖或补充内置数据
+ */
+export interface TradingCalendarData {
+  updatedAt?: string // 数据更新日期 (YYYY-MM-DD)
+  holidays: Record<string, string[]> // 年份 -> 周一至周五的休市日期 (YYYY-MM-DD)
+}
+
+export const BUNDLED_CALENDAR: TradingCalendarData = {
+  updatedAt: '2025-12-31',
+  holidays: {
+    '2020': [
+      '2020-01-01',
+      '2020-01-24',
+      '2020-01-27',
+      '2020-01-28',
+      '2020-01-29',
+      '2020-01-30',
+      '2020-01-31',
+      '2020-04-06',
+      '2020-05-01',
+      '2020-05-04',
+      '2020-05-05',
+      '2020-06-25',
+      '2020-06-26',
+      '2020-10-01',
+      '2020-10-02',
+      '2020-10-05',
+      '2020-10-06',
+      '2020-10-07',
+      '2020-10-08'
+    ],
+    '2021': [
+      '2021-01-01',
+      '2021-02-11',
+      '2021-02-12',
+      '2021-02-15',
+      '2021-02-16',
+      '2021-02-17',
+      '2021-04-05',
+      '2021-05-03',
+      '2021-05-04',
+      '2021-05-05',
+      '2021-06-14',
+      '2021-09-20',
+      '2021-09-21',
+      '2021-10-01',
+      '2021-10-04',
+      '2021-10-05',
+      '2021-10-06',
+      '2021-10-07'
+    ],
+    '2022': [
+      '2022-01-03',
+      '2022-01-31',
+      '2022-02-01',
+      '2022-02-02',
+      '2022-02-03',
+      '2022-02-04',
+      '2022-04-04',
+      '2022-04-05',
+      '2022-05-02',
+      '2022-05-03',
+      '2022-05-04',
+      '2022-06-03',
+      '2022-09-12',
+      '2022-10-03',
+      '2022-10-04',
+      '2022-10-05',
+      '2022-10-06',
+      '2022-10-07'
+    ],
+    '2023': [
+      '2023-01-02',
+      '2023-01-23',
+      '2023-01-24',
+      '2023-01-25',
+      '2023-01-26',
+      '2023-01-27',
+      '2023-04-05',
+      '2023-05-01',
+      '2023-05-02',
+      '2023-05-03',
+      '2023-06-22',
+      '2023-06-23',
+      '2023-09-29',
+      '2023-10-02',
+      '2023-10-03',
+      '2023-10-04',
+      '2023-10-05',
+      '2023-10-06'
+    ],
+    '2024': [
+      '2024-01-01',
+      '2024-02-09',
+      '2024-02-12',
+      '2024-02-13',
+      '2024-02-14',
+      '2024-02-15',
+      '2024-02-16',
+      '2024-04-04',
+      '2024-04-05',
+      '2024-05-01',
+      '2024-05-02',
+      '2024-05-03',
+      '2024-06-10',
+      '2024-09-16',
+      '2024-09-17',
+      '2024-10-01',
+      '2024-10-02',
+      '2024-10-03',
+      '2024-10-04',
+      '2024-10-07'
+    ],
+    '2025': [
+      '2025-01-01',
+      '2025-01-28',
+      '2025-01-29',
+      '2025-01-30',
+      '2025-01-31',
+      '2025-02-03',
+      '2025-02-04',
+      '2025-04-04',
+      '2025-05-01',
+      '2025-05-02',
+      '2025-05-05',
+      '2025-06-02',
+      '2025-10-01',
+      '2025-10-02',
+      '2025-10-03',
+      '2025-10-06',
+      '2025-10-07',
+      '2025-10-08'
+    ],
+    '2026': [
+      '2026-01-01',
+      '2026-01-02',
+      '2026-02-16',
+      '2026-02-17',
+      '2026-02-18',
+      '2026-02-19',
+      '2026-02-20',
+      '2026-02-23',
+      '2026-04-06',
+      '2026-05-01',
+      '2026-05-04',
+      '2026-05-05',
+      '2026-06-19',
+      '2026-09-25',
+      '2026-10-01',
+      '2026-10-02',
+      '2026-10-05',
+      '2026-10-06',
+      '2026-10-07'
+    ]
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * 交易日历模块导出
+ */
+
+export {
+  TradingCalendar,
+  getTradingCalendar,
+  resetTradingCalendar,
+  toDateKey
+} from './trading-calendar'
+export { MarketClock, getMarketClock, resetMarketClock } from './market-clock'
+export type { MarketPhase, MarketTime, MarketTransition, MarketClockOptions } from './market-clock'
+export { BUNDLED_CALENDAR } from './holidays'
+export type { TradingCalendarData } from './holidays'
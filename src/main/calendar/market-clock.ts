@@ -0,0 +1,234 @@
+import { getTradingCalendar } from './trading-calendar'
+import type { TradingCalendar } from './trading-calendar'
+
+/**
+ * 北京时间相对 UTC 的偏移（毫秒）
+ * 中国自 1991 年起不再实行夏令时，固定为 UTC+8
+ */
+const SHANGHAI_OFFSET_MS = 8 * 60 * 60 * 1000
+
+const MINUTE_MS = 60 * 1000
+
+/** 各时段开始时刻（北京时间，当天分钟数） */
+const MORNING_OPEN = 9 * 60 + 30
+const LUNCH_START = 11 * 60 + 31 // 11:30 这一分钟仍计入上午时段
+const AFTERNOON_OPEN = 13 * 60
+const POST_CLOSE_START = 15 * 60 + 1 // 15:00 这一分钟仍计入下午时段
+const NET_VALUE_START = 20 * 60
+const ORDER_CUTOFF = 15 * 60 // 申购赎回的当日净值截止时间
+
+/**
+ * 市场时段
+ * - closed: 非交易日
+ * - pre-open: 交易日开盘前
+ * - morning / afternoon: 连续竞价时段
+ * - lunch: 午间休市
+ * - post-close: 收盘后、净值公布前
+ * - net-value: 20:00 后的净值公布窗口
+ */
+export type MarketPhase =
+  'closed' | 'pre-open' | 'morning' | 'lunch' | 'afternoon' | 'post-close' | 'net-value'
+
+/**
+ * 北京时间下的日期与时刻
+ */
+export interface MarketTime {
+  date: string // YYYY-MM-DD
+  time: string // HH:mm
+  minutes: number // 当天分钟数
+}
+
+/**
+ * 时段切换
+ */
+export interface MarketTransition {
+  phase: MarketPhase // 切换后的时段
+  at: Date // 切换时刻
+}
+
+export interface MarketClockOptions {
+  /** 当前时间来源，测试时可注入固定时间 */
+  now?: () => Date
+  /** 交易日历，缺省使用全局单例 */
+  calendar?: () => TradingCalendar
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * 市场时钟
+ * 所有日期和时段均按北京时间（Asia/Shanghai）计算，与运行环境的本地时区无关
+ */
+export class MarketClock {
+  private readonly nowFn: () => Date
+  private readonly calendarFn: () => TradingCalendar
+
+  constructor(options: MarketClockOptions = {}) {
+    this.nowFn = options.now ?? (() => new Date())
+    this.calendarFn = options.calendar ?? getTradingCalendar
+  }
+
+  /**
+   * 当前时间
+   */
+  now(): Date {
+    return this.nowFn()
+  }
+
+  /**
+   * 获取北京时间下的日期与时刻
+   */
+  getMarketTime(at: Date = this.now()): MarketTime {
+    const shifted = new Date(at.getTime() + SHANGHAI_OFFSET_MS)
+    const hours = shifted.getUTCHours()
+    const minutes = shifted.getUTCMinutes()
+    return {
+      date: `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`,
+      time: `${pad(hours)}:${pad(minutes)}`,
+      minutes: hours * 60 + minutes
+    }
+  }
+
+  /**
+   * 今天的日期（北京时间，YYYY-MM-DD）
+   */
+  today(at: Date = this.now()): string {
+    return this.getMarketTime(at).date
+  }
+
+  /**
+   * 格式化为北京时间 "YYYY-MM-DD HH:mm"，与数据源估值时间格式一致
+   */
+  formatTime(at: Date = this.now()): string {
+    const { date, time } = this.getMarketTime(at)
+    return `${date} ${time}`
+  }
+
+  /**
+   * 今天是否为交易日
+   */
+  isTradingDay(at: Date = this.now()): boolean {
+    return this.calendarFn().isTradingDay(this.today(at))
+  }
+
+  /**
+   * 获取所处的市场时段
+   */
+  getPhase(at: Date = this.now()): MarketPhase {
+    const { date, minutes } = this.getMarketTime(at)
+    if (!this.calendarFn().isTradingDay(date)) return 'closed'
+    if (minutes < MORNING_OPEN) return 'pre-open'
+    if (minutes < LUNCH_START) return 'morning'
+    if (minutes < AFTERNOON_OPEN) return 'lunch'
+    if (minutes < POST_CLOSE_START) return 'afternoon'
+    if (minutes < NET_VALUE_START) return 'post-close'
+    return 'net-value'
+  }
+
+  /**
+   * 是否处于连续竞价时段（不含午间休市）
+   */
+  isSessionOpen(at: Date = this.now()): boolean {
+    const phase = this.getPhase(at)
+    return phase === 'morning' || phase === 'afternoon'
+  }
+
+  /**
+   * 是否处于盘中（开盘至收盘，含午间休市）
+   */
+  isTradingTime(at: Date = this.now()): boolean {
+    const phase = this.getPhase(at)
+    return phase === 'morning' || phase === 'lunch' || phase === 'afternoon'
+  }
+
+  /**
+   * 申购赎回申请适用净值的交易日（T 日）
+   * 交易日 15:00 前提交按当天净值确认，15:00 及以后或休市日提交顺延到下一个交易日
+   */
+  orderTradeDate(at: Date = this.now()): string {
+    const { date, minutes } = this.getMarketTime(at)
+    if (this.calendarFn().isTradingDay(date) && minutes < ORDER_CUTOFF) return date
+    return this.calendarFn().nextTradingDay(date)
+  }
+
+  /**
+   * 获取下一次时段切换
+   */
+  nextTransition(at: Date = this.now()): MarketTransition {
+    const { date, minutes } = this.getMarketTime(at)
+
+    if (this.calendarFn().isTradingDay(date)) {
+      const boundaries: [number, MarketPhase][] = [
+        [MORNING_OPEN, 'morning'],
+        [LUNCH_START, 'lunch'],
+        [AFTERNOON_OPEN, 'afternoon'],
+        [POST_CLOSE_START, 'post-close'],
+        [NET_VALUE_START, 'net-value']
+      ]
+      const next = boundaries.find(([start]) => start > minutes)
+      if (next) {
+        return { phase: next[1], at: this.toInstant(date, next[0]) }
+      }
+    }
+
+    // 今天的时段已结束或今天休市，下一个交易日零点进入开盘前
+    const nextDay = this.calendarFn().nextTradingDay(date)
+    return { phase: 'pre-open', at: this.toInstant(nextDay, 0) }
+  }
+
+  /**
+   * 将北京时间的日期与分钟数转换为时刻
+   * @param date YYYY-MM-DD
+   * @param minutes 当天分钟数
+   */
+  toInstant(date: string, minutes: number): Date {
+    const [year, month, day] = date.split('-').map(Number)
+    return new Date(Date.UTC(year, month - 1, day) + minutes * MINUTE_MS - SHANGHAI_OFFSET_MS)
+  }
+
+  /**
+   * 解析时间字符串
+   * 带时区的 ISO 字符串按其时区解析，"YYYY-MM-DD HH:mm" 形式按北京时间解析
+   * @returns 时间戳（毫秒），无法解析时返回 NaN
+   */
+  parseTime(value: string): number {
+    if (/[zZ]|[+-]\d{2}:?\d{2}$/.test(value)) {
+      return Date.parse(value)
+    }
+    const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/)
+    if (!match) return NaN
+    const [, date, hh = '0', mm = '0', ss = '0'] = match
+    return this.toInstant(date, Number(hh) * 60 + Number(mm)).getTime() + Number(ss) * 1000
+  }
+
+  /**
+   * 获取时间字符串对应的北京时间日期
+   */
+  dateOf(value: string): string {
+    const time = this.parseTime(value)
+    return isNaN(time) ? '' : this.today(new Date(time))
+  }
+}
+
+// 单例实例
+let clockInstance: MarketClock | null = null
+
+/**
+ * 获取市场时钟单例
+ */
+export function getMarketClock(): MarketClock {
+  if (!clockInstance) {
+    clockInstance = new MarketClock()
+  }
+  return clockInstance
+}
+
+/**
+ * 重置市场时钟（用于测试）
+ * @param options 注入的时间来源或交易日历
+ */
+export function resetMarketClock(options?: MarketClockOptions): void {
+  clockInstance = options ? new MarketClock(options) : null
+}
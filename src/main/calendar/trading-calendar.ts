@@ -0,0 +1,173 @@
+import { existsSync, readFileSync } from 'fs'
+import { BUNDLED_CALENDAR } from './holidays'
+import type { TradingCalendarData } from './holidays'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** 查找相邻交易日时最多向前/向后搜索的天数 */
+const MAX_SEARCH_DAYS = 30
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * 将日期转换为 YYYY-MM-DD（本地时间）
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * 解析 YYYY-MM-DD 为本地零点
+ */
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * 校验日历数据格式
+ */
+function isCalendarData(data: unknown): data is TradingCalendarData {
+  if (!data || typeof data !== 'object') return false
+  const holidays = (data as TradingCalendarData).holidays
+  if (!holidays || typeof holidays !== 'object') return false
+  return Object.entries(holidays).every(
+    ([year, dates]) =>
+      /^\d{4}$/.test(year) &&
+      Array.isArray(dates) &&
+      dates.every((d) => typeof d === 'string' && DATE_PATTERN.test(d) && d.startsWith(year))
+  )
+}
+
+/**
+ * A 股交易日历
+ * 交易日 = 周一至周五且不在休市安排中；没有休市数据的年份按工作日处理
+ */
+export class TradingCalendar {
+  private holidays = new Map<string, Set<string>>()
+
+  constructor(data: TradingCalendarData = BUNDLED_CALENDAR) {
+    this.merge(data)
+  }
+
+  /**
+   * 合并日历数据，同一年份以新数据为准
+   */
+  merge(data: TradingCalendarData): void {
+    for (const [year, dates] of Object.entries(data.holidays)) {
+      this.holidays.set(year, new Set(dates))
+    }
+  }
+
+  /**
+   * 从日历文件加载休市安排
+   * 文件格式与 TradingCalendarData 相同，用于在内置数据过期后补充新的年份
+   * @returns 是否加载成功
+   */
+  loadFromFile(path: string): boolean {
+    if (!existsSync(path)) return false
+
+    try {
+      const data: unknown = JSON.parse(readFileSync(path, 'utf-8'))
+      if (!isCalendarData(data)) {
+        console.error(`Invalid trading calendar file: ${path}`)
+        return false
+      }
+      this.merge(data)
+      console.log(
+        `Loaded trading calendar from ${path}, years: ${Object.keys(data.holidays).join(', ')}`
+      )
+      return true
+    } catch (error) {
+      console.error(`Failed to load trading calendar from ${path}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * 已有休市数据的年份
+   */
+  getCoveredYears(): number[] {
+    return Array.from(this.holidays.keys())
+      .map(Number)
+      .sort((a, b) => a - b)
+  }
+
+  /**
+   * 判断是否为交易日
+   * @param date 日期对象或 YYYY-MM-DD
+   */
+  isTradingDay(date: Date | string): boolean {
+    const day = typeof date === 'string' ? parseDateKey(date) : date
+    const weekday = day.getDay()
+    if (weekday === 0 || weekday === 6) return false
+
+    const key = typeof date === 'string' ? date : toDateKey(date)
+    const year = key.slice(0, 4)
+    const holidays = this.holidays.get(year)
+    // 没有该年份的休市数据时按工作日都开市处理
+    if (!holidays) return true
+    return !holidays.has(key)
+  }
+
+  /**
+   * 下一个交易日（不含当天）
+   * @returns YYYY-MM-DD
+   */
+  nextTradingDay(date: Date | string): string {
+    return this.findTradingDay(date, 1)
+  }
+
+  /**
+   * 上一个交易日（不含当天）
+   * @returns YYYY-MM-DD
+   */
+  previousTradingDay(date: Date | string): string {
+    return this.findTradingDay(date, -1)
+  }
+
+  /**
+   * 从指定日期起向后数第 n 个交易日
+   * @param n 为 0 时返回当天（非交易日则顺延到下一个交易日）
+   * @returns YYYY-MM-DD
+   */
+  addTradingDays(date: Date | string, n: number): string {
+    const start = typeof date === 'string' ? date : toDateKey(date)
+    let key = this.isTradingDay(start) ? start : this.nextTradingDay(start)
+    for (let i = 0; i < n; i++) {
+      key = this.nextTradingDay(key)
+    }
+    return key
+  }
+
+  private findTradingDay(date: Date | string, step: 1 | -1): string {
+    const day = typeof date === 'string' ? parseDateKey(date) : new Date(date)
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+      day.setDate(day.getDate() + step)
+      if (this.isTradingDay(day)) return toDateKey(day)
+    }
+    throw new Error(`No trading day found within ${MAX_SEARCH_DAYS} days of ${toDateKey(day)}`)
+  }
+}
+
+// 单例实例
+let calendarInstance: TradingCalendar | null = null
+
+/**
+ * 获取交易日历单例
+ */
+export function getTradingCalendar(): TradingCalendar {
+  if (!calendarInstance) {
+    calendarInstance = new TradingCalendar()
+  }
+  return calendarInstance
+}
+
+/**
+ * 重置交易日历（用于测试）
+ */
+export function resetTradingCalendar(): void {
+  calendarInstance = null
+}
@@ -1,40 +1,92 @@
-import axios, { AxiosError } from 'axios'
-import type { FundBasicInfo, FundDetail, Holding } from '@shared/types'
+import type {
+  FundBasicInfo,
+  FundDetail,
+  HistoryRange,
+  Holding,
+  RedemptionFeeTier,
+  Valuation
+} from '@shared/types'
+import { getProviderRegistry } from './providers'
+import type { NetValueHistory, ValuationQuote } from './providers'
+import { rankSearchResults } from './search-rank'
+import { getMarketClock } from '../calendar'
 
-const API_BASE = 'https://fund-eye-server-omrinldkwt.cn-beijing.fcapp.run'
-const TIMEOUT = 20000
-const MAX_RETRIES = 1
+/** 模糊搜索最多返回的条数 */
+const MAX_SEARCH_RESULTS = 10
 
-/** 带重试的请求 */
-async function requestWithRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
-  try {
-    return await fn()
-  } catch (err) {
-    if (
-      retries > 0 &&
-      err instanceof AxiosError &&
-      (err.code === 'ECONNABORTED' || !err.response)
-    ) {
-      return requestWithRetry(fn, retries - 1)
-    }
-    throw err
-  }
+/** 判断当前是否是交易时间（交易日 9:30-15:00，北京时间） */
+export function isTradingTime(): boolean {
+  return getMarketClock().isTradingTime()
 }
 
-/** 判断当前是否是交易时间（9:30-15:00，周一到周五） */
-export function isTradingTime(): boolean {
-  const now = new Date()
-  const day = now.getDay()
-  if (day === 0 || day === 6) return false
-  const hour = now.getHours()
-  const minute = now.getMinutes()
-  const time = hour * 60 + minute
-  return time >= 9 * 60 + 30 && time <= 15 * 60
+/** 数据源估值超过该时长未更新即视为过期（毫秒） */
+const UPSTREAM_STALE_MS = 15 * 60 * 1000
+
+/**
+ * 判断数据源估值是否缺失或过期
+ * 估值时间形如 "2024-01-02 14:30"，按北京时间解析
+ */
+export function isUpstreamStale(
+  valuation: Valuation | undefined,
+  now: number = getMarketClock().now().getTime()
+): boolean {
+  if (!valuation) return true
+  const time = getMarketClock().parseTime(valuation.updateTime)
+  return isNaN(time) || now - time > UPSTREAM_STALE_MS
 }
 
-/** 判断当前是否是 20:00 及以后 */
+/** 判断当前是否是 20:00 及以后（北京时间） */
 function isAfter20(): boolean {
-  return new Date().getHours() >= 20
+  return getMarketClock().getMarketTime().minutes >= 20 * 60
+}
+
+/**
+ * 时间范围对应的最少请求条数（按交易日估算）
+ */
+function rangeCount(range: HistoryRange): number {
+  switch (range) {
+    case '1m':
+      return 25
+    case '3m':
+      return 65
+    case '6m':
+      return 130
+    case '1y':
+      return 250
+    case '3y':
+      return 750
+    case 'all':
+      return 3000
+  }
+}
+
+/**
+ * 按时间范围过滤序列（以北京时间的今天为基准，按 UTC 日期运算避免时区偏移）
+ */
+function filterRange(data: NetValueHistory[], range: HistoryRange): NetValueHistory[] {
+  const start = new Date(`${getMarketClock().today()}T00:00:00Z`)
+  switch (range) {
+    case '1m':
+      start.setUTCMonth(start.getUTCMonth() - 1)
+      break
+    case '3m':
+      start.setUTCMonth(start.getUTCMonth() - 3)
+      break
+    case '6m':
+      start.setUTCMonth(start.getUTCMonth() - 6)
+      break
+    case '1y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1)
+      break
+    case '3y':
+      start.setUTCFullYear(start.getUTCFullYear() - 3)
+      break
+    case 'all':
+      start.setUTCFullYear(2000)
+      break
+  }
+  const startDate = start.toISOString().split('T')[0]
+  return data.filter((d) => d.date >= startDate)
 }
 
 export interface FundValuationResult {
@@ -47,9 +99,11 @@ export interface FundValuationResult {
   isTradingDay?: boolean
 }
 
-export interface NetValueHistory {
-  date: string
-  value: number
+export type { NetValueHistory }
+
+/** 获取当前生效的数据源 */
+function provider() {
+  return getProviderRegistry().getActive()
 }
 
 /**
@@ -57,18 +111,54 @@ export interface NetValueHistory {
  */
 export class FundFetcher {
   /**
-   * 搜索基金
+   * 模糊搜索基金
+   * 支持基金名称、拼音首字母（如 "zsbj"）和代码前缀，按匹配程度排序
    */
-  async searchFund(code: string): Promise<FundBasicInfo | null> {
+  async searchFunds(keyword: string): Promise<FundBasicInfo[]> {
+    const key = keyword.trim()
+    if (!key) return []
+
     try {
-      const url = `${API_BASE}/api/fundsuggest/FundSearch/api/FundSearchAPI.ashx`
-      const res = await requestWithRetry(() =>
-        axios.get(url, { params: { callback: '', m: 1, key: code }, timeout: TIMEOUT })
+      const items = rankSearchResults(await provider().searchFunds(key), key, MAX_SEARCH_RESULTS)
+
+      // 数据源未随结果返回净值时，单独补齐
+      return await Promise.all(
+        items.map(async (item) => {
+          const netInfo =
+            item.netValue !== undefined && item.netValueDate
+              ? { netValue: item.netValue, netValueDate: item.netValueDate }
+              : await this.fetchNetValue(item.code)
+          return {
+            code: item.code,
+            name: item.name,
+            type: item.type,
+            netValue: netInfo.netValue,
+            netValueDate: netInfo.netValueDate
+          }
+        })
       )
-      const info = this.parseSearchResult(res.data, code)
+    } catch (error) {
+      console.error(`Failed to search funds by "${key}":`, error)
+      return []
+    }
+  }
+
+  /**
+   * 按代码精确查找基金
+   */
+  async searchFund(code: string): Promise<FundBasicInfo | null> {
+    try {
+      const items = await provider().searchFunds(code)
+      const info = items.find((item) => item.code === code)
       if (!info) return null
       const netInfo = await this.fetchNetValue(code)
-      return { ...info, netValue: netInfo.netValue, netValueDate: netInfo.netValueDate }
+      return {
+        code: info.code,
+        name: info.name,
+        type: info.type,
+        netValue: netInfo.netValue,
+        netValueDate: netInfo.netValueDate
+      }
     } catch (error) {
       console.error(`Failed to search fund ${code}:`, error)
       return null
@@ -111,9 +201,7 @@ export class FundFetcher {
         }
         // 盘中或收盘后20:00前，获取估值
         console.log(`[getFundValuation] ${code}: force, fetching valuation`)
-        const url = `${API_BASE}/api/fundgz/js/${code}.js?rt=${Date.now()}`
-        const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
-        return this.parseValuationResponse(res.data)
+        return this.toValuationResult(await provider().fetchValuation(code))
       }
 
       // 非强制刷新的逻辑
@@ -133,9 +221,7 @@ export class FundFetcher {
       }
 
       // 盘中获取估值
-      const url = `${API_BASE}/api/fundgz/js/${code}.js?rt=${Date.now()}`
-      const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
-      return this.parseValuationResponse(res.data)
+      return this.toValuationResult(await provider().fetchValuation(code))
     } catch (error) {
       console.error(`Failed to get fund valuation for ${code}:`, error)
       return null
@@ -143,30 +229,26 @@ export class FundFetcher {
   }
 
   /**
-   * 解析估值响应
+   * 将数据源估值报价转换为估值结果
    */
-  private parseValuationResponse(data: string): FundValuationResult | null {
-    const match = data.match(/jsonpgz\((.+)\)/)
-    if (match) {
-      const json = JSON.parse(match[1])
-      const netValue = parseFloat(json.dwjz) || 0
-      const estimatedValue = parseFloat(json.gsz) || 0
-      const today = new Date().toISOString().split('T')[0]
-      const gztime = json.gztime || ''
-      const isRealValue = json.jzrq === today || (netValue > 0 && netValue === estimatedValue)
-      const isTradingDay = gztime.startsWith(today)
+  private toValuationResult(quote: ValuationQuote | null): FundValuationResult | null {
+    if (!quote) return null
+    const { netValue, estimatedValue } = quote
+    const today = getMarketClock().today()
+    const gztime = quote.estimateTime
+    const isRealValue =
+      quote.netValueDate === today || (netValue > 0 && netValue === estimatedValue)
+    const isTradingDay = gztime.startsWith(today)
 
-      return {
-        netValue,
-        netValueDate: json.jzrq || '',
-        estimatedValue: isRealValue ? netValue : estimatedValue,
-        estimatedChange: parseFloat(json.gszzl) || 0,
-        updateTime: gztime || new Date().toISOString(),
-        isRealValue,
-        isTradingDay
-      }
+    return {
+      netValue,
+      netValueDate: quote.netValueDate,
+      estimatedValue: isRealValue ? netValue : estimatedValue,
+      estimatedChange: quote.estimatedChange,
+      updateTime: gztime || new Date().toISOString(),
+      isRealValue,
+      isTradingDay
     }
-    return null
   }
 
   /**
@@ -174,17 +256,15 @@ export class FundFetcher {
    */
   private async fetchRealNetValue(code: string): Promise<FundValuationResult | null> {
     try {
-      const url = `${API_BASE}/api/fund/netvalue?code=${code}`
-      const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
-      const data = res.data
-      if (data && data.netValueDate) {
-        const today = new Date().toISOString().split('T')[0]
+      const data = await provider().fetchPublishedNetValue(code)
+      if (data) {
+        const today = getMarketClock().today()
         if (data.netValueDate === today) {
           return {
-            netValue: parseFloat(data.netValue) || 0,
+            netValue: data.netValue,
             netValueDate: data.netValueDate,
-            estimatedValue: parseFloat(data.netValue) || 0,
-            estimatedChange: parseFloat(data.change) || 0,
+            estimatedValue: data.netValue,
+            estimatedChange: data.change,
             updateTime: new Date().toISOString(),
             isRealValue: true
           }
@@ -200,92 +280,10 @@ export class FundFetcher {
   /**
    * 获取历史净值
    */
-  async fetchNetValueHistory(
-    code: string,
-    range: '1m' | '3m' | '6m' | '1y' | '3y' | 'all' = '1m'
-  ): Promise<NetValueHistory[]> {
+  async fetchNetValueHistory(code: string, range: HistoryRange = '1m'): Promise<NetValueHistory[]> {
     try {
-      let targetCount = 30
-      switch (range) {
-        case '1m':
-          targetCount = 25
-          break
-        case '3m':
-          targetCount = 65
-          break
-        case '6m':
-          targetCount = 130
-          break
-        case '1y':
-          targetCount = 250
-          break
-        case '3y':
-          targetCount = 750
-          break
-        case 'all':
-          targetCount = 3000
-          break
-      }
-
-      const perPage = 49
-      const maxPages = Math.ceil(targetCount / perPage)
-      const url = `${API_BASE}/api/fundf10/F10DataApi.aspx`
-
-      // 并行请求多页数据
-      const pagePromises = []
-      for (let page = 1; page <= maxPages; page++) {
-        pagePromises.push(
-          requestWithRetry(() =>
-            axios.get(url, {
-              params: { type: 'lsjz', code, per: perPage, page },
-              timeout: TIMEOUT
-            })
-          ).then((res) => this.parseNetValueHistory(res.data))
-        )
-      }
-
-      const results = await Promise.all(pagePromises)
-      let allData: NetValueHistory[] = []
-      for (const pageData of results) {
-        allData = allData.concat(pageData)
-      }
-
-      // 去重并按日期排序
-      const dateMap = new Map<string, number>()
-      for (const item of allData) {
-        if (!dateMap.has(item.date)) {
-          dateMap.set(item.date, item.value)
-        }
-      }
-
-      const uniqueData = Array.from(dateMap.entries())
-        .map(([date, value]) => ({ date, value }))
-        .sort((a, b) => a.date.localeCompare(b.date))
-
-      // 根据时间范围过滤
-      const start = new Date()
-      switch (range) {
-        case '1m':
-          start.setMonth(start.getMonth() - 1)
-          break
-        case '3m':
-          start.setMonth(start.getMonth() - 3)
-          break
-        case '6m':
-          start.setMonth(start.getMonth() - 6)
-          break
-        case '1y':
-          start.setFullYear(start.getFullYear() - 1)
-          break
-        case '3y':
-          start.setFullYear(start.getFullYear() - 3)
-          break
-        case 'all':
-          start.setFullYear(2000)
-          break
-      }
-      const startDate = start.toISOString().split('T')[0]
-      return uniqueData.filter((d) => d.date >= startDate)
+      const uniqueData = await provider().fetchNetValueHistory(code, rangeCount(range))
+      return filterRange(uniqueData, range)
     } catch (error) {
       console.error(`Failed to fetch net value history for ${code}:`, error)
       return []
@@ -293,101 +291,53 @@ export class FundFetcher {
   }
 
   /**
-   * 获取持仓
+   * 获取指数历史收盘点位，时间范围与历史净值一致
+   * @throws 数据源请求失败时抛出错误，避免比较基准静默显示为空
    */
-  async fetchHoldings(code: string): Promise<Holding[]> {
+  async fetchIndexHistory(code: string, range: HistoryRange = '1m'): Promise<NetValueHistory[]> {
     try {
-      const url = `${API_BASE}/api/fundf10/FundArchivesDatas.aspx`
-      const res = await requestWithRetry(() =>
-        axios.get(url, {
-          params: { type: 'jjcc', code, topline: 10, year: '', month: '', rt: Date.now() },
-          timeout: TIMEOUT
-        })
-      )
-      return this.parseHoldings(res.data)
+      const uniqueData = await provider().fetchIndexHistory(code, rangeCount(range))
+      return filterRange(uniqueData, range)
     } catch (error) {
-      console.error(`Failed to fetch holdings for ${code}:`, error)
-      return []
+      console.error(`Failed to fetch index history for ${code}:`, error)
+      throw new Error('获取指数历史点位失败，请检查数据源是否支持')
     }
   }
 
-  private async fetchNetValue(code: string): Promise<{ netValue: number; netValueDate: string }> {
+  /**
+   * 获取持仓
+   */
+  async fetchHoldings(code: string): Promise<Holding[]> {
     try {
-      const url = `${API_BASE}/api/fundgz/js/${code}.js`
-      const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
-      const match = res.data.match(/jsonpgz\((.+)\)/)
-      if (match) {
-        const data = JSON.parse(match[1])
-        return { netValue: parseFloat(data.dwjz) || 0, netValueDate: data.jzrq || '' }
-      }
+      return await provider().fetchHoldings(code)
     } catch (error) {
-      console.error(`Failed to fetch net value for ${code}:`, error)
-    }
-    return { netValue: 0, netValueDate: '' }
-  }
-
-  private parseSearchResult(
-    data: unknown,
-    targetCode: string
-  ): Omit<FundBasicInfo, 'netValue' | 'netValueDate'> | null {
-    try {
-      let result = data as {
-        Datas?: Array<{
-          CODE: string
-          NAME: string
-          CATEGORY: number
-          FundBaseInfo?: { FTYPE?: string }
-        }>
-      }
-      if (typeof data === 'string') {
-        const jsonStr = data.replace(/^[^{]*/, '').replace(/[^}]*$/, '')
-        result = JSON.parse(jsonStr)
-      }
-      if (!result.Datas?.length) return null
-      const fund = result.Datas.find((item) => item.CODE === targetCode && item.CATEGORY === 700)
-      if (!fund) return null
-      return { code: fund.CODE, name: fund.NAME || '', type: fund.FundBaseInfo?.FTYPE || '混合型' }
-    } catch {
-      return null
+      console.error(`Failed to fetch holdings for ${code}:`, error)
+      return []
     }
   }
 
-  private parseHoldings(html: string): Holding[] {
-    const holdings: Holding[] = []
+  /**
+   * 获取赎回费率表，获取失败时返回空数组
+   */
+  async fetchRedemptionFees(code: string): Promise<RedemptionFeeTier[]> {
     try {
-      const tableMatch = html.match(/<table class='w782 comm tzxq'>([\s\S]*?)<\/table>/)
-      if (!tableMatch) return []
-      const rowRegex =
-        /<tr><td>\d+<\/td><td><a[^>]*>(\d+)<\/a><\/td><td class='tol'><a[^>]*>([^<]+)<\/a><\/td>[\s\S]*?<td class='tor'>([\d.]+)%<\/td>/g
-      let match
-      while ((match = rowRegex.exec(tableMatch[1])) !== null && holdings.length < 10) {
-        holdings.push({
-          stockCode: match[1],
-          stockName: match[2].trim(),
-          ratio: parseFloat(match[3]) || 0,
-          change: 0,
-          price: 0
-        })
-      }
+      return await provider().fetchRedemptionFees(code)
     } catch (error) {
-      console.error('Failed to parse holdings:', error)
+      console.error(`Failed to fetch redemption fees for ${code}:`, error)
+      return []
     }
-    return holdings
   }
 
-  private parseNetValueHistory(html: string): NetValueHistory[] {
-    const result: NetValueHistory[] = []
+  private async fetchNetValue(code: string): Promise<{ netValue: number; netValueDate: string }> {
     try {
-      const rowRegex = /<tr><td>(\d{4}-\d{2}-\d{2})<\/td><td[^>]*>([\d.]+)<\/td>/g
-      let match
-      while ((match = rowRegex.exec(html)) !== null) {
-        result.push({ date: match[1], value: parseFloat(match[2]) || 0 })
+      const quote = await provider().fetchValuation(code)
+      if (quote) {
+        return { netValue: quote.netValue, netValueDate: quote.netValueDate }
       }
-      result.reverse()
     } catch (error) {
-      console.error('Failed to parse net value history:', error)
+      console.error(`Failed to fetch net value for ${code}:`, error)
     }
-    return result
+    return { netValue: 0, netValueDate: '' }
   }
 }
 
@@ -5,3 +5,12 @@
 export { FundFetcher, fundFetcher } from './fund-fetcher'
 export { StockFetcher, stockFetcher } from './stock-fetcher'
 export type { FundValuationResult, NetValueHistory } from './fund-fetcher'
+export {
+  HttpDataProvider,
+  MockDataProvider,
+  ProviderRegistry,
+  getProviderRegistry,
+  resetProviderRegistry,
+  DEFAULT_PROVIDER_ID
+} from './providers'
+export type { DataProvider } from './providers'
@@ -0,0 +1,262 @@
+import axios from 'axios'
+import type { Holding, RedemptionFeeTier, StockQuote } from '@shared/types'
+import { requestWithRetry, TIMEOUT } from '../request'
+import type {
+  DataProvider,
+  FundSearchItem,
+  NetValueHistory,
+  PublishedNetValue,
+  ValuationQuote
+} from './types'
+
+/** 官方托管的云函数代理地址 */
+export const DEFAULT_API_BASE = 'https://fund-eye-server-omrinldkwt.cn-beijing.fcapp.run'
+
+/** 天天基金搜索接口中基金类条目的分类 */
+const FUND_CATEGORY = 700
+
+/** 赎回费持有期限单位换算为自然日 */
+const DAYS_PER_UNIT: Record<string, number> = { 天: 1, 日: 1, 个月: 30, 月: 30, 年: 365 }
+
+/**
+ * HTTP 数据源
+ * 对接 fund-eye-server 代理接口，自建的同构代理也可通过 baseUrl 接入
+ */
+export class HttpDataProvider implements DataProvider {
+  readonly id: string
+  readonly name: string
+  private readonly baseUrl: string
+
+  constructor(id: string, name: string, baseUrl: string) {
+    this.id = id
+    this.name = name
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  async searchFunds(keyword: string): Promise<FundSearchItem[]> {
+    const url = `${this.baseUrl}/api/fundsuggest/FundSearch/api/FundSearchAPI.ashx`
+    const res = await requestWithRetry(() =>
+      axios.get(url, { params: { callback: '', m: 1, key: keyword }, timeout: TIMEOUT })
+    )
+    return this.parseSearchResult(res.data)
+  }
+
+  async fetchValuation(code: string): Promise<ValuationQuote | null> {
+    const url = `${this.baseUrl}/api/fundgz/js/${code}.js?rt=${Date.now()}`
+    const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
+    return this.parseValuationResponse(res.data)
+  }
+
+  async fetchPublishedNetValue(code: string): Promise<PublishedNetValue | null> {
+    const url = `${this.baseUrl}/api/fund/netvalue?code=${code}`
+    const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
+    const data = res.data
+    if (!data || !data.netValueDate) return null
+    return {
+      netValue: parseFloat(data.netValue) || 0,
+      netValueDate: data.netValueDate,
+      change: parseFloat(data.change) || 0
+    }
+  }
+
+  async fetchHoldings(code: string): Promise<Holding[]> {
+    const url = `${this.baseUrl}/api/fundf10/FundArchivesDatas.aspx`
+    const res = await requestWithRetry(() =>
+      axios.get(url, {
+        params: { type: 'jjcc', code, topline: 10, year: '', month: '', rt: Date.now() },
+        timeout: TIMEOUT
+      })
+    )
+    return this.parseHoldings(res.data)
+  }
+
+  async fetchNetValueHistory(code: string, count: number): Promise<NetValueHistory[]> {
+    const perPage = 49
+    const maxPages = Math.ceil(count / perPage)
+    const url = `${this.baseUrl}/api/fundf10/F10DataApi.aspx`
+
+    // 并行请求多页数据
+    const pagePromises = []
+    for (let page = 1; page <= maxPages; page++) {
+      pagePromises.push(
+        requestWithRetry(() =>
+          axios.get(url, {
+            params: { type: 'lsjz', code, per: perPage, page },
+            timeout: TIMEOUT
+          })
+        ).then((res) => this.parseNetValueHistory(res.data))
+      )
+    }
+
+    const results = await Promise.all(pagePromises)
+
+    // 去重并按日期排序
+    const dateMap = new Map<string, number>()
+    for (const pageData of results) {
+      for (const item of pageData) {
+        if (!dateMap.has(item.date)) {
+          dateMap.set(item.date, item.value)
+        }
+      }
+    }
+
+    return Array.from(dateMap.entries())
+      .map(([date, value]) => ({ date, value }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  /**
+   * 指数日线需要代理提供 /api/index/history 路由（不在天天基金转发范围内），
+   * 代理未提供时请求失败，由详情页提示而不是显示空曲线
+   */
+  async fetchIndexHistory(code: string, count: number): Promise<NetValueHistory[]> {
+    const url = `${this.baseUrl}/api/index/history?code=${code}&count=${count}`
+    const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
+    if (!res.data?.data) return []
+
+    const dateMap = new Map<string, number>()
+    for (const item of res.data.data as Array<{ date: string; close?: number | string }>) {
+      const close = parseFloat(String(item.close ?? ''))
+      if (item.date && close > 0) dateMap.set(item.date, close)
+    }
+    return Array.from(dateMap.entries())
+      .map(([date, value]) => ({ date, value }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  async fetchRedemptionFees(code: string): Promise<RedemptionFeeTier[]> {
+    const url = `${this.baseUrl}/api/fundf10/jjfl_${code}.html`
+    const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
+    return this.parseRedemptionFees(res.data)
+  }
+
+  async fetchStockQuotes(codes: string[]): Promise<StockQuote[]> {
+    const url = `${this.baseUrl}/api/stock/quotes?codes=${codes.join(',')}`
+    const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
+    if (!res.data?.data) return []
+    return res.data.data.map(
+      (item: { code: string; name?: string; price?: number; change?: number }) => ({
+        code: item.code,
+        name: item.name || '',
+        price: item.price || 0,
+        change: item.change || 0,
+        changeAmount: 0
+      })
+    )
+  }
+
+  /**
+   * 解析估值响应
+   */
+  private parseValuationResponse(data: string): ValuationQuote | null {
+    const match = typeof data === 'string' ? data.match(/jsonpgz\((.+)\)/) : null
+    if (!match) return null
+    const json = JSON.parse(match[1])
+    return {
+      netValue: parseFloat(json.dwjz) || 0,
+      netValueDate: json.jzrq || '',
+      estimatedValue: parseFloat(json.gsz) || 0,
+      estimatedChange: parseFloat(json.gszzl) || 0,
+      estimateTime: json.gztime || ''
+    }
+  }
+
+  private parseSearchResult(data: unknown): FundSearchItem[] {
+    try {
+      let result = data as {
+        Datas?: Array<{
+          CODE: string
+          NAME: string
+          CATEGORY: number
+          JP?: string
+          FundBaseInfo?: { FTYPE?: string; DWJZ?: number | string; FSRQ?: string }
+        }>
+      }
+      if (typeof data === 'string') {
+        const jsonStr = data.replace(/^[^{]*/, '').replace(/[^}]*$/, '')
+        result = JSON.parse(jsonStr)
+      }
+      if (!result.Datas?.length) return []
+      return result.Datas.filter((item) => item.CATEGORY === FUND_CATEGORY).map((item) => ({
+        code: item.CODE,
+        name: item.NAME || '',
+        type: item.FundBaseInfo?.FTYPE || '混合型',
+        pinyin: item.JP?.toLowerCase(),
+        netValue: parseFloat(String(item.FundBaseInfo?.DWJZ ?? '')) || undefined,
+        netValueDate: item.FundBaseInfo?.FSRQ || undefined
+      }))
+    } catch {
+      return []
+    }
+  }
+
+  private parseHoldings(html: string): Holding[] {
+    const holdings: Holding[] = []
+    try {
+      const tableMatch = html.match(/<table class='w782 comm tzxq'>([\s\S]*?)<\/table>/)
+      if (!tableMatch) return []
+      const rowRegex =
+        /<tr><td>\d+<\/td><td><a[^>]*>(\d+)<\/a><\/td><td class='tol'><a[^>]*>([^<]+)<\/a><\/td>[\s\S]*?<td class='tor'>([\d.]+)%<\/td>/g
+      let match
+      while ((match = rowRegex.exec(tableMatch[1])) !== null && holdings.length < 10) {
+        holdings.push({
+          stockCode: match[1],
+          stockName: match[2].trim(),
+          ratio: parseFloat(match[3]) || 0,
+          change: 0,
+          price: 0
+        })
+      }
+    } catch (error) {
+      console.error('Failed to parse holdings:', error)
+    }
+    return holdings
+  }
+
+  /**
+   * 解析基金费率页的赎回费率表
+   * 适用期限形如 "小于7天"、"大于等于7天，小于1年"、"大于等于2年"，按下限换算为持有天数
+   */
+  private parseRedemptionFees(html: string): RedemptionFeeTier[] {
+    const tiers: RedemptionFeeTier[] = []
+    try {
+      const start = typeof html === 'string' ? html.indexOf('>赎回费率<') : -1
+      const table = start >= 0 ? html.slice(start).match(/<tbody>([\s\S]*?)<\/tbody>/)?.[1] : null
+      if (!table) return []
+
+      const rowRegex = /<tr>([\s\S]*?)<\/tr>/g
+      let match
+      while ((match = rowRegex.exec(table)) !== null) {
+        const cells = Array.from(match[1].matchAll(/<td[^>]*>([^<]*)<\/td>/g), (m) => m[1].trim())
+        const period = cells.find((c) => /[天日月年]/.test(c))
+        const rate = cells[cells.length - 1]?.match(/^([\d.]+)%$/)
+        if (period === undefined || !rate) continue
+
+        const lower = period.match(/大于(?:等于)?(\d+)\s*(天|日|个月|月|年)/)
+        // "大于N天" 不含第 N 天，从下一天起适用
+        const minDays = lower
+          ? parseInt(lower[1], 10) * DAYS_PER_UNIT[lower[2]] + (lower[0].includes('等于') ? 0 : 1)
+          : 0
+        tiers.push({ minDays, rate: parseFloat(rate[1]) })
+      }
+    } catch (error) {
+      console.error('Failed to parse redemption fees:', error)
+    }
+    return tiers.sort((a, b) => a.minDays - b.minDays)
+  }
+
+  private parseNetValueHistory(html: string): NetValueHistory[] {
+    const result: NetValueHistory[] = []
+    try {
+      const rowRegex = /<tr><td>(\d{4}-\d{2}-\d{2})<\/td><td[^>]*>([\d.]+)<\/td>/g
+      let match
+      while ((match = rowRegex.exec(html)) !== null) {
+        result.push({ date: match[1], value: parseFloat(match[2]) || 0 })
+      }
+      result.reverse()
+    } catch (error) {
+      console.error('Failed to parse net value history:', error)
+    }
+    return result
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * 数据源模块导出
+ */
+
+export { HttpDataProvider, DEFAULT_API_BASE } from './http-provider'
+export { MockDataProvider } from './mock-provider'
+export {
+  ProviderRegistry,
+  getProviderRegistry,
+  resetProviderRegistry,
+  DEFAULT_PROVIDER_ID
+} from './registry'
+export type {
+  DataProvider,
+  FundSearchItem,
+  ValuationQuote,
+  PublishedNetValue,
+  NetValueHistory
+} from './types'
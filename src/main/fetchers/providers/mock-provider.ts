@@ -0,0 +1,194 @@
+import type { Holding, RedemptionFeeTier, StockQuote } from '@shared/types'
+import type {
+  DataProvider,
+  FundSearchItem,
+  NetValueHistory,
+  PublishedNetValue,
+  ValuationQuote
+} from './types'
+
+/** 内置的示例基金 */
+const MOCK_FUNDS: FundSearchItem[] = [
+  { code: '000001', name: '华夏成长混合', type: '混合型-偏股', pinyin: 'hxczhh' },
+  { code: '110011', name: '易方达优质精选混合(QDII)', type: 'QDII', pinyin: 'yfdyzjxhh' },
+  { code: '161725', name: '招商中证白酒指数(LOF)A', type: '指数型-股票', pinyin: 'zszzbjzs' },
+  { code: '022365', name: '永赢科技智选混合发起C', type: '混合型-偏股', pinyin: 'yykjzxhhfq' },
+  { code: '510300', name: '华泰柏瑞沪深300ETF', type: '指数型-股票', pinyin: 'htbrhs300' }
+]
+
+/** 内置的示例股票 */
+const MOCK_STOCKS: Array<{ code: string; name: string; basePrice: number }> = [
+  { code: '600519', name: '贵州茅台', basePrice: 1500 },
+  { code: '000858', name: '五粮液', basePrice: 140 },
+  { code: '300750', name: '宁德时代', basePrice: 200 },
+  { code: '601318', name: '中国平安', basePrice: 45 },
+  { code: '600036', name: '招商银行', basePrice: 33 },
+  { code: '000333', name: '美的集团', basePrice: 65 },
+  { code: '002594', name: '比亚迪', basePrice: 230 },
+  { code: '600900', name: '长江电力', basePrice: 28 },
+  { code: '601012', name: '隆基绿能', basePrice: 20 },
+  { code: '000568', name: '泸州老窖', basePrice: 150 },
+  { code: '688981', name: '中芯国际', basePrice: 60 },
+  { code: '300059', name: '东方财富', basePrice: 18 }
+]
+
+/**
+ * 由字符串生成 [0, 1) 区间的确定性伪随机数
+ */
+function seededRandom(seed: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return (hash >>> 0) / 4294967296
+}
+
+function formatDate(date: Date): string {
+  const y = date.getFullYear()
+  const m = (date.getMonth() + 1).toString().padStart(2, '0')
+  const d = date.getDate().toString().padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+/**
+ * 本地模拟数据源
+ * 不发起网络请求，按基金代码和日期生成稳定的模拟数据，用于离线开发和代理故障时排查
+ */
+export class MockDataProvider implements DataProvider {
+  readonly id = 'mock'
+  readonly name = '本地模拟数据'
+
+  async searchFunds(keyword: string): Promise<FundSearchItem[]> {
+    const lower = keyword.toLowerCase()
+    const matched = MOCK_FUNDS.filter(
+      (f) => f.code.startsWith(keyword) || f.name.includes(keyword) || f.pinyin?.includes(lower)
+    )
+    // 未命中的六位代码也返回一只模拟基金，便于任意代码的调试
+    if (matched.length === 0 && /^\d{6}$/.test(keyword)) {
+      return [{ code: keyword, name: `模拟基金${keyword}`, type: '混合型-偏股' }]
+    }
+    return matched
+  }
+
+  async fetchValuation(code: string): Promise<ValuationQuote | null> {
+    const now = new Date()
+    const { date: netValueDate, value: netValue } = this.lastHistoryPoint(code, now)
+    const minute = `${formatDate(now)} ${now.getHours()}:${now.getMinutes()}`
+    const estimatedChange = Number(((seededRandom(`${code}:${minute}`) - 0.5) * 4).toFixed(2))
+    const hh = now.getHours().toString().padStart(2, '0')
+    const mm = now.getMinutes().toString().padStart(2, '0')
+    return {
+      netValue,
+      netValueDate,
+      estimatedValue: Number((netValue * (1 + estimatedChange / 100)).toFixed(4)),
+      estimatedChange,
+      estimateTime: `${formatDate(now)} ${hh}:${mm}`
+    }
+  }
+
+  async fetchPublishedNetValue(code: string): Promise<PublishedNetValue | null> {
+    const history = this.generateHistory(code, 2, new Date())
+    if (history.length < 2) return null
+    const [prev, last] = history
+    return {
+      netValue: last.value,
+      netValueDate: last.date,
+      change: Number((((last.value - prev.value) / prev.value) * 100).toFixed(2))
+    }
+  }
+
+  async fetchHoldings(code: string): Promise<Holding[]> {
+    const offset = Math.floor(seededRandom(code) * MOCK_STOCKS.length)
+    const holdings: Holding[] = []
+    for (let i = 0; i < 10; i++) {
+      const stock = MOCK_STOCKS[(offset + i) % MOCK_STOCKS.length]
+      holdings.push({
+        stockCode: stock.code,
+        stockName: stock.name,
+        ratio: Number((9 - i * 0.6 + seededRandom(`${code}:${stock.code}`)).toFixed(2)),
+        change: 0,
+        price: 0
+      })
+    }
+    return holdings
+  }
+
+  async fetchNetValueHistory(code: string, count: number): Promise<NetValueHistory[]> {
+    return this.generateHistory(code, count, new Date())
+  }
+
+  async fetchIndexHistory(code: string, count: number): Promise<NetValueHistory[]> {
+    // 与基金净值共用生成方式，加前缀避免与同代码基金的曲线重合
+    return this.generateHistory(`index:${code}`, count, new Date()).map((p) => ({
+      date: p.date,
+      value: Number((p.value * 1000).toFixed(2))
+    }))
+  }
+
+  async fetchRedemptionFees(code: string): Promise<RedemptionFeeTier[]> {
+    // C 类份额持有 30 天后免赎回费，其余按常见的 A 类费率表
+    const name = MOCK_FUNDS.find((f) => f.code === code)?.name ?? ''
+    if (/C$/.test(name)) {
+      return [
+        { minDays: 0, rate: 1.5 },
+        { minDays: 7, rate: 0.5 },
+        { minDays: 30, rate: 0 }
+      ]
+    }
+    return [
+      { minDays: 0, rate: 1.5 },
+      { minDays: 7, rate: 0.5 },
+      { minDays: 365, rate: 0.25 },
+      { minDays: 730, rate: 0 }
+    ]
+  }
+
+  async fetchStockQuotes(codes: string[]): Promise<StockQuote[]> {
+    const now = new Date()
+    const minute = `${formatDate(now)} ${now.getHours()}:${now.getMinutes()}`
+    return codes.map((code) => {
+      const stock = MOCK_STOCKS.find((s) => s.code === code)
+      const basePrice = stock?.basePrice ?? 10 + seededRandom(code) * 90
+      const change = Number(((seededRandom(`${code}:${minute}`) - 0.5) * 6).toFixed(2))
+      return {
+        code,
+        name: stock?.name ?? '',
+        price: Number((basePrice * (1 + change / 100)).toFixed(2)),
+        change,
+        changeAmount: Number(((basePrice * change) / 100).toFixed(2))
+      }
+    })
+  }
+
+  /**
+   * 生成截至前一个工作日的模拟净值序列（按日期升序）
+   */
+  private generateHistory(code: string, count: number, until: Date): NetValueHistory[] {
+    const dates: string[] = []
+    const cursor = new Date(until)
+    cursor.setDate(cursor.getDate() - 1)
+    while (dates.length < count) {
+      const day = cursor.getDay()
+      if (day !== 0 && day !== 6) {
+        dates.unshift(formatDate(cursor))
+      }
+      cursor.setDate(cursor.getDate() - 1)
+    }
+
+    // 净值只取决于基金代码和日期，保证不同请求长度下同一天的结果一致
+    const base = 1 + seededRandom(code) * 2
+    const phase = seededRandom(`${code}:phase`) * Math.PI * 2
+    return dates.map((date) => {
+      const dayIndex = Math.floor(new Date(date).getTime() / 86400000)
+      const trend = 1 + 0.25 * Math.sin(dayIndex / 45 + phase)
+      const noise = 1 + (seededRandom(`${code}:${date}`) - 0.5) * 0.02
+      return { date, value: Number((base * trend * noise).toFixed(4)) }
+    })
+  }
+
+  private lastHistoryPoint(code: string, now: Date): NetValueHistory {
+    const history = this.generateHistory(code, 1, now)
+    return history[history.length - 1]
+  }
+}
@@ -0,0 +1,120 @@
+import type { DataProviderInfo, DataSourceSettings } from '@shared/types'
+import { DEFAULT_API_BASE, HttpDataProvider } from './http-provider'
+import { MockDataProvider } from './mock-provider'
+import type { DataProvider } from './types'
+
+/** 默认数据源标识 */
+export const DEFAULT_PROVIDER_ID = 'default'
+
+/**
+ * 数据源注册表
+ * 管理所有可用数据源，并记录当前生效的数据源
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, DataProvider>()
+  private builtinIds = new Set<string>()
+  private activeId = DEFAULT_PROVIDER_ID
+
+  constructor() {
+    this.registerBuiltin(
+      new HttpDataProvider(DEFAULT_PROVIDER_ID, '默认云端代理', DEFAULT_API_BASE)
+    )
+    this.registerBuiltin(new MockDataProvider())
+  }
+
+  /**
+   * 注册数据源，同 id 的数据源会被替换
+   */
+  register(provider: DataProvider): void {
+    if (this.builtinIds.has(provider.id)) {
+      throw new Error(`不能覆盖内置数据源: ${provider.id}`)
+    }
+    this.providers.set(provider.id, provider)
+  }
+
+  /**
+   * 移除自定义数据源，若其正在使用则回退到默认数据源
+   */
+  unregister(id: string): void {
+    if (this.builtinIds.has(id)) {
+      throw new Error(`不能移除内置数据源: ${id}`)
+    }
+    this.providers.delete(id)
+    if (this.activeId === id) {
+      this.activeId = DEFAULT_PROVIDER_ID
+    }
+  }
+
+  /**
+   * 切换当前数据源
+   */
+  setActive(id: string): void {
+    if (!this.providers.has(id)) {
+      throw new Error(`未找到数据源: ${id}`)
+    }
+    this.activeId = id
+    console.log(`Data provider switched to ${id}`)
+  }
+
+  /**
+   * 获取当前数据源
+   */
+  getActive(): DataProvider {
+    return this.providers.get(this.activeId) ?? this.providers.get(DEFAULT_PROVIDER_ID)!
+  }
+
+  /**
+   * 列出所有数据源
+   */
+  list(): DataProviderInfo[] {
+    return Array.from(this.providers.values()).map((p) => ({
+      id: p.id,
+      name: p.name,
+      builtin: this.builtinIds.has(p.id),
+      active: p.id === this.activeId
+    }))
+  }
+
+  /**
+   * 按设置加载自定义数据源并选择当前数据源
+   * 设置中的数据源不存在时回退到默认数据源
+   */
+  applySettings(settings: DataSourceSettings): void {
+    for (const id of Array.from(this.providers.keys())) {
+      if (!this.builtinIds.has(id)) {
+        this.providers.delete(id)
+      }
+    }
+    for (const source of settings.customSources) {
+      this.register(new HttpDataProvider(source.id, source.name, source.baseUrl))
+    }
+    this.activeId = this.providers.has(settings.providerId)
+      ? settings.providerId
+      : DEFAULT_PROVIDER_ID
+  }
+
+  private registerBuiltin(provider: DataProvider): void {
+    this.providers.set(provider.id, provider)
+    this.builtinIds.add(provider.id)
+  }
+}
+
+// 单例实例
+let registryInstance: ProviderRegistry | null = null
+
+/**
+ * 获取数据源注册表单例
+ */
+export function getProviderRegistry(): ProviderRegistry {
+  if (!registryInstance) {
+    registryInstance = new ProviderRegistry()
+  }
+  return registryInstance
+}
+
+/**
+ * 重置数据源注册表（用于测试）
+ */
+export function resetProviderRegistry(): void {
+  registryInstance = null
+}
@@ -0,0 +1,88 @@
+import type { Holding, RedemptionFeeTier, StockQuote } from '@shared/types'
+
+/**
+ * 基金搜索条目（数据源原始结果）
+ */
+export interface FundSearchItem {
+  code: string // 基金代码
+  name: string // 基金名称
+  type: string // 基金类型
+  pinyin?: string // 名称拼音首字母，如 "zsbj"
+  netValue?: number // 最新净值（数据源随搜索结果返回时提供）
+  netValueDate?: string // 净值日期
+}
+
+/**
+ * 基金估值报价（数据源原始结果）
+ */
+export interface ValuationQuote {
+  netValue: number // 最新已公布净值
+  netValueDate: string // 净值日期 (YYYY-MM-DD)
+  estimatedValue: number // 盘中估算净值
+  estimatedChange: number // 估算涨跌幅 (百分比)
+  estimateTime: string // 估值时间，如 "2024-01-02 14:30"
+}
+
+/**
+ * 已公布的真实净值
+ */
+export interface PublishedNetValue {
+  netValue: number // 单位净值
+  netValueDate: string // 净值日期 (YYYY-MM-DD)
+  change: number // 日涨跌幅 (百分比)
+}
+
+/**
+ * 历史净值点
+ */
+export interface NetValueHistory {
+  date: string
+  value: number
+}
+
+/**
+ * 数据源提供者接口
+ * 每个实现只负责“取数并规范化”，交易时间判断、缓存等策略由 FundFetcher / StockFetcher 处理
+ */
+export interface DataProvider {
+  /** 唯一标识，用于设置中选择 */
+  readonly id: string
+  /** 展示名称 */
+  readonly name: string
+
+  /** 搜索基金，返回匹配的基金条目 */
+  searchFunds(keyword: string): Promise<FundSearchItem[]>
+
+  /** 获取盘中估值，无数据时返回 null */
+  fetchValuation(code: string): Promise<ValuationQuote | null>
+
+  /** 获取最新已公布净值，无数据时返回 null */
+  fetchPublishedNetValue(code: string): Promise<PublishedNetValue | null>
+
+  /** 获取前十大持仓 */
+  fetchHoldings(code: string): Promise<Holding[]>
+
+  /**
+   * 获取最近的历史净值
+   * @param count 期望的最少条数
+   * @returns 按日期升序、已去重的净值序列
+   */
+  fetchNetValueHistory(code: string, count: number): Promise<NetValueHistory[]>
+
+  /**
+   * 获取指数最近的日收盘点位
+   * @param code 指数代码，如 "000300"、"NDX"
+   * @param count 期望的最少条数
+   * @returns 按日期升序、已去重的收盘点位序列
+   */
+  fetchIndexHistory(code: string, count: number): Promise<NetValueHistory[]>
+
+  /**
+   * 获取赎回费率表
+   * @returns 按持有天数升序的费率档位，数据源没有该数据时返回空数组
+   */
+  fetchRedemptionFees(code: string): Promise<RedemptionFeeTier[]>
+
+  /** 批量获取股票实时行情 */
+  fetchStockQuotes(codes: string[]): Promise<StockQuote[]>
+}
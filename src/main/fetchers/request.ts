@@ -0,0 +1,22 @@
+import { AxiosError } from 'axios'
+
+/** 请求超时时间（毫秒） */
+export const TIMEOUT = 20000
+/** 网络异常时的最大重试次数 */
+export const MAX_RETRIES = 1
+
+/** 带重试的请求 */
+export async function requestWithRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
+  try {
+    return await fn()
+  } catch (err) {
+    if (
+      retries > 0 &&
+      err instanceof AxiosError &&
+      (err.code === 'ECONNABORTED' || !err.response)
+    ) {
+      return requestWithRetry(fn, retries - 1)
+    }
+    throw err
+  }
+}
@@ -0,0 +1,52 @@
+import type { FundSearchItem } from './providers'
+
+/**
+ * 计算搜索条目与关键字的匹配得分，越高越靠前
+ * 代码精确 > 代码前缀 > 拼音首字母精确 > 拼音前缀 > 名称前缀 > 名称包含 > 拼音包含
+ * 数据源自身模糊命中但本地规则未命中的条目给最低分，仍然保留
+ */
+export function scoreSearchItem(item: FundSearchItem, keyword: string): number {
+  const key = keyword.trim().toLowerCase()
+  if (!key) return 0
+
+  const pinyin = item.pinyin?.toLowerCase() ?? ''
+  const name = item.name.toLowerCase()
+
+  if (item.code === key) return 100
+  if (item.code.startsWith(key)) return 80
+  if (pinyin && pinyin === key) return 70
+  if (pinyin.startsWith(key)) return 60
+  if (name.startsWith(key)) return 50
+  if (name.includes(key)) return 40
+  if (pinyin.includes(key)) return 30
+  return 10
+}
+
+/**
+ * 按匹配得分排序搜索结果，同分时名称较短、代码较小者优先
+ * @param items 数据源返回的搜索条目
+ * @param keyword 搜索关键字（代码、名称或拼音首字母）
+ * @param limit 最多返回条数
+ */
+export function rankSearchResults(
+  items: FundSearchItem[],
+  keyword: string,
+  limit: number
+): FundSearchItem[] {
+  const seen = new Set<string>()
+  return items
+    .filter((item) => {
+      if (seen.has(item.code)) return false
+      seen.add(item.code)
+      return true
+    })
+    .map((item) => ({ item, score: scoreSearchItem(item, keyword) }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.item.name.length - b.item.name.length ||
+        a.item.code.localeCompare(b.item.code)
+    )
+    .slice(0, limit)
+    .map(({ item }) => item)
+}
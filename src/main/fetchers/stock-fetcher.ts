@@ -1,25 +1,5 @@
-import axios, { AxiosError } from 'axios'
 import type { StockQuote } from '@shared/types'
-
-const API_BASE = 'https://fund-eye-server-omrinldkwt.cn-beijing.fcapp.run'
-const TIMEOUT = 20000
-const MAX_RETRIES = 1
-
-/** 带重试的请求 */
-async function requestWithRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
-  try {
-    return await fn()
-  } catch (err) {
-    if (
-      retries > 0 &&
-      err instanceof AxiosError &&
-      (err.code === 'ECONNABORTED' || !err.response)
-    ) {
-      return requestWithRetry(fn, retries - 1)
-    }
-    throw err
-  }
-}
+import { getProviderRegistry } from './providers'
 
 /** 股票行情缓存 */
 const stockQuoteCache = new Map<string, { price: number; change: number; time: number }>()
@@ -58,20 +38,10 @@ export class StockFetcher {
     // 请求未缓存的
     if (needFetch.length > 0) {
       try {
-        const url = `${API_BASE}/api/stock/quotes?codes=${needFetch.join(',')}`
-        const res = await requestWithRetry(() => axios.get(url, { timeout: TIMEOUT }))
-        if (res.data?.data) {
-          for (const item of res.data.data) {
-            const quote: StockQuote = {
-              code: item.code,
-              name: item.name || '',
-              price: item.price || 0,
-              change: item.change || 0,
-              changeAmount: 0
-            }
-            result.push(quote)
-            stockQuoteCache.set(item.code, { price: quote.price, change: quote.change, time: now })
-          }
+        const quotes = await getProviderRegistry().getActive().fetchStockQuotes(needFetch)
+        for (const quote of quotes) {
+          result.push(quote)
+          stockQuoteCache.set(quote.code, { price: quote.price, change: quote.change, time: now })
         }
       } catch (error) {
         console.error('Failed to fetch stock quotes:', error)
@@ -80,6 +50,13 @@ export class StockFetcher {
 
     return result
   }
+
+  /**
+   * 清空行情缓存（切换数据源后调用）
+   */
+  clearCache(): void {
+    stockQuoteCache.clear()
+  }
 }
 
 export const stockFetcher = new StockFetcher()
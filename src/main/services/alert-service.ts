@@ -0,0 +1,354 @@
+import { Notification } from 'electron'
+import { ALL_PORTFOLIOS } from '@shared/types'
+import type { AlertMetric, AlertRule, AlertRuleInput, AlertTrigger, Fund } from '@shared/types'
+import { fundFetcher } from '../fetchers/fund-fetcher'
+import { getMarketClock } from '../calendar'
+import { createId } from '../utils'
+import { getStorageService } from './storage-service'
+
+/** 最多保留的触发记录条数 */
+const HISTORY_LIMIT = 200
+
+const METRICS: AlertMetric[] = ['estimatedChange', 'estimatedValue', 'todayProfit', 'drawdown']
+
+/** 整个组合只支持按涨跌幅和收益提醒 */
+const PORTFOLIO_METRICS: AlertMetric[] = ['estimatedChange', 'todayProfit']
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  estimatedChange: '估算涨跌幅',
+  estimatedValue: '估算净值',
+  todayProfit: '今日预估收益',
+  drawdown: '较近一年高点回撤'
+}
+
+/**
+ * 指标是否从上次检查到本次按规则方向穿越了阈值
+ */
+function crossed(rule: AlertRule, previous: number, value: number): boolean {
+  return rule.operator === 'above'
+    ? previous < rule.threshold && value >= rule.threshold
+    : previous > rule.threshold && value <= rule.threshold
+}
+
+/**
+ * 按指标格式化数值
+ */
+function formatMetric(metric: AlertMetric, value: number): string {
+  if (metric === 'estimatedValue') return value.toFixed(4)
+  if (metric === 'todayProfit') return `${value.toFixed(2)} 元`
+  return `${value.toFixed(2)}%`
+}
+
+/**
+ * 基金今日预估收益及昨日市值
+ * 昨日净值由估算净值和估算涨跌幅反推
+ */
+function dayProfitOf(fund: Fund, shares: number): { profit: number; base: number } | null {
+  if (!(shares > 0) || !(fund.estimatedValue > 0) || isNaN(fund.estimatedChange)) return null
+  const base = (shares * fund.estimatedValue) / (1 + fund.estimatedChange / 100)
+  return { profit: shares * fund.estimatedValue - base, base }
+}
+
+/**
+ * 提醒服务
+ * 每次估值更新后检查提醒规则，指标穿越阈值且不在冷却期内时弹出桌面通知并记录
+ */
+export class AlertService {
+  /** 各规则上次检查时的指标值，用于判断是否穿越阈值 */
+  private lastValues = new Map<string, number>()
+
+  /** 近一年最高净值缓存，净值日期变化后重新获取 */
+  private highs = new Map<string, { netValueDate: string; high: number }>()
+
+  /**
+   * 获取全部提醒规则
+   */
+  getRules(): AlertRule[] {
+    return getStorageService().getAlertRules()
+  }
+
+  /**
+   * 获取触发记录（按时间升序）
+   */
+  getHistory(): AlertTrigger[] {
+    return getStorageService().getAlertHistory()
+  }
+
+  /**
+   * 新建提醒规则
+   */
+  create(input: AlertRuleInput): AlertRule[] {
+    this.validate(input)
+    const storage = getStorageService()
+    const rule: AlertRule = {
+      ...this.normalize(input),
+      id: createId(),
+      createdAt: new Date().toISOString()
+    }
+    storage.saveAlertRules([...storage.getAlertRules(), rule])
+    return this.getRules()
+  }
+
+  /**
+   * 修改提醒规则，已有的触发记录保留，冷却期照常计算
+   */
+  update(id: string, input: AlertRuleInput): AlertRule[] {
+    this.validate(input)
+    const storage = getStorageService()
+    const rules = storage.getAlertRules()
+    if (!rules.some((r) => r.id === id)) {
+      throw new Error('提醒规则不存在')
+    }
+    storage.saveAlertRules(rules.map((r) => (r.id === id ? { ...r, ...this.normalize(input) } : r)))
+    // 阈值或指标可能已变化，下次检查重新记录起点
+    this.lastValues.delete(id)
+    return this.getRules()
+  }
+
+  /**
+   * 删除提醒规则及其触发记录
+   */
+  remove(id: string): AlertRule[] {
+    const storage = getStorageService()
+    storage.saveAlertRules(storage.getAlertRules().filter((r) => r.id !== id))
+    this.lastValues.delete(id)
+    const history = storage.getAlertHistory()
+    if (history.some((t) => t.ruleId === id)) {
+      storage.saveAlertHistory(history.filter((t) => t.ruleId !== id))
+    }
+    return this.getRules()
+  }
+
+  /**
+   * 删除组合的提醒规则
+   * @param only 只删除这些基金的规则（基金移出组合时），不传时删除全部
+   */
+  removePortfolioRules(portfolioId: string, only?: string[]): void {
+    const rules = getStorageService().getAlertRules()
+    for (const rule of rules.filter(
+      (r) => r.portfolioId === portfolioId && (!only || (r.code !== null && only.includes(r.code)))
+    )) {
+      this.remove(rule.id)
+    }
+  }
+
+  /**
+   * 检查所有启用的规则
+   * 指标从阈值一侧穿越到另一侧时提醒，持续停留在阈值外不重复提醒；
+   * 在阈值附近反复穿越时按冷却时间限制，开启每日一次的规则每个交易日最多提醒一次
+   * 规则启用或修改后的首次检查只记录起点
+   * @param funds 最新估值的自选基金
+   * @returns 本次触发的记录
+   */
+  async evaluate(funds: Fund[]): Promise<AlertTrigger[]> {
+    const storage = getStorageService()
+    const rules = storage.getAlertRules().filter((r) => r.enabled)
+    if (rules.length === 0) return []
+
+    const clock = getMarketClock()
+    const now = clock.now()
+    const today = clock.today(now)
+    const history = storage.getAlertHistory()
+    const triggers: AlertTrigger[] = []
+
+    for (const rule of rules) {
+      const value = await this.measure(rule, funds)
+      if (value === null) continue
+      const previous = this.lastValues.get(rule.id)
+      this.lastValues.set(rule.id, value)
+      if (previous === undefined || !crossed(rule, previous, value)) continue
+
+      const last = [...history].reverse().find((t) => t.ruleId === rule.id)
+      if (last) {
+        if (rule.oncePerDay && last.date === today) continue
+        if (now.getTime() - Date.parse(last.time) < rule.cooldownMinutes * 60 * 1000) continue
+      }
+
+      const trigger: AlertTrigger = {
+        ruleId: rule.id,
+        date: today,
+        time: now.toISOString(),
+        value,
+        message: this.describe(rule, value, funds)
+      }
+      history.push(trigger)
+      triggers.push(trigger)
+    }
+
+    if (triggers.length > 0) {
+      storage.saveAlertHistory(history.slice(-HISTORY_LIMIT))
+      for (const trigger of triggers) {
+        this.notify(trigger.message)
+      }
+    }
+    return triggers
+  }
+
+  /**
+   * 计算规则指标的当前值，数据不足时返回 null
+   */
+  private async measure(rule: AlertRule, funds: Fund[]): Promise<number | null> {
+    if (rule.code === null) {
+      let profit = 0
+      let base = 0
+      for (const fund of this.portfolioFunds(rule.portfolioId, funds)) {
+        const day = dayProfitOf(fund, this.sharesOf(fund, rule.portfolioId))
+        if (!day) continue
+        profit += day.profit
+        base += day.base
+      }
+      if (base === 0) return null
+      return rule.metric === 'todayProfit' ? profit : (profit / base) * 100
+    }
+
+    const fund = funds.find((f) => f.code === rule.code)
+    if (!fund) return null
+
+    switch (rule.metric) {
+      case 'estimatedChange':
+        return isNaN(fund.estimatedChange) ? null : fund.estimatedChange
+      case 'estimatedValue':
+        return fund.estimatedValue > 0 ? fund.estimatedValue : null
+      case 'todayProfit':
+        return dayProfitOf(fund, this.sharesOf(fund, rule.portfolioId))?.profit ?? null
+      case 'drawdown': {
+        if (!(fund.estimatedValue > 0)) return null
+        const high = await this.highOf(fund)
+        if (high === null) return null
+        return Math.max(1 - fund.estimatedValue / Math.max(high, fund.estimatedValue), 0) * 100
+      }
+    }
+  }
+
+  /**
+   * 近一年最高单位净值，获取不到历史净值时返回 null（不缓存，下次更新时重试）
+   */
+  private async highOf(fund: Fund): Promise<number | null> {
+    const cached = this.highs.get(fund.code)
+    if (cached && cached.netValueDate === fund.netValueDate) return cached.high
+
+    const history = await fundFetcher.fetchNetValueHistory(fund.code, '1y')
+    if (history.length === 0) return null
+    const high = Math.max(...history.map((p) => p.value))
+    this.highs.set(fund.code, { netValueDate: fund.netValueDate, high })
+    return high
+  }
+
+  /**
+   * 组合中的基金，ALL_PORTFOLIOS 表示全部自选基金
+   */
+  private portfolioFunds(portfolioId: string, funds: Fund[]): Fund[] {
+    if (portfolioId === ALL_PORTFOLIOS) return funds
+    const portfolio = getStorageService()
+      .getPortfolios()
+      .list.find((p) => p.id === portfolioId)
+    return portfolio ? funds.filter((f) => portfolio.codes.includes(f.code)) : []
+  }
+
+  /**
+   * 基金在组合中的持有份额
+   */
+  private sharesOf(fund: Fund, portfolioId: string): number {
+    if (portfolioId === ALL_PORTFOLIOS) return fund.shares ?? 0
+    return fund.positions?.[portfolioId]?.shares ?? 0
+  }
+
+  /**
+   * 生成通知内容，如 "易方达蓝筹 估算涨跌幅 -2.35%（下穿 -2.00%）"
+   */
+  private describe(rule: AlertRule, value: number, funds: Fund[]): string {
+    let scope: string
+    if (rule.code !== null) {
+      scope = funds.find((f) => f.code === rule.code)?.name ?? rule.code
+    } else if (rule.portfolioId === ALL_PORTFOLIOS) {
+      scope = '全部组合'
+    } else {
+      scope =
+        getStorageService()
+          .getPortfolios()
+          .list.find((p) => p.id === rule.portfolioId)?.name ?? '组合'
+    }
+    const sign = rule.operator === 'above' ? '上穿' : '下穿'
+    return `${scope} ${METRIC_LABELS[rule.metric]} ${formatMetric(rule.metric, value)}（${sign} ${formatMetric(rule.metric, rule.threshold)}）`
+  }
+
+  /**
+   * 弹出桌面通知，系统不支持通知时跳过
+   */
+  private notify(body: string): void {
+    try {
+      if (!Notification.isSupported()) return
+      new Notification({ title: 'FundEye 提醒', body }).show()
+    } catch (error) {
+      console.error('Failed to show alert notification:', error)
+    }
+  }
+
+  /**
+   * 只保留规则字段，去掉调用方附带的其他属性
+   */
+  private normalize(input: AlertRuleInput): AlertRuleInput {
+    return {
+      code: input.code,
+      portfolioId: input.portfolioId,
+      metric: input.metric,
+      operator: input.operator,
+      threshold: input.threshold,
+      cooldownMinutes: input.cooldownMinutes,
+      oncePerDay: input.oncePerDay,
+      enabled: input.enabled
+    }
+  }
+
+  /**
+   * 校验规则
+   */
+  private validate(input: AlertRuleInput): void {
+    const storage = getStorageService()
+    if (!METRICS.includes(input.metric)) {
+      throw new Error('提醒指标无效')
+    }
+    if (input.operator !== 'above' && input.operator !== 'below') {
+      throw new Error('穿越方向无效')
+    }
+    if (!Number.isFinite(input.threshold)) {
+      throw new Error('阈值无效')
+    }
+    if (!Number.isInteger(input.cooldownMinutes) || input.cooldownMinutes < 0) {
+      throw new Error('冷却时间需为非负整数分钟')
+    }
+    if (
+      input.portfolioId !== ALL_PORTFOLIOS &&
+      !storage.getPortfolios().list.some((p) => p.id === input.portfolioId)
+    ) {
+      throw new Error('组合不存在')
+    }
+    if (input.code === null) {
+      if (!PORTFOLIO_METRICS.includes(input.metric)) {
+        throw new Error('整个组合只支持按涨跌幅和今日收益提醒')
+      }
+    } else if (!storage.getWatchlist().some((f) => f.code === input.code)) {
+      throw new Error('该基金不在自选列表中')
+    }
+  }
+}
+
+// 单例实例
+let alertServiceInstance: AlertService | null = null
+
+/**
+ * 获取提醒服务单例
+ */
+export function getAlertService(): AlertService {
+  if (!alertServiceInstance) {
+    alertServiceInstance = new AlertService()
+  }
+  return alertServiceInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetAlertService(): void {
+  alertServiceInstance = null
+}
@@ -0,0 +1,98 @@
+import { BENCHMARK_INDEXES } from '@shared/types'
+import type { BenchmarkComparison, BenchmarkIndex, Fund, HistoryRange } from '@shared/types'
+import { fundFetcher } from '../fetchers/fund-fetcher'
+import { performanceCalculator } from '../calculator/performance-calculator'
+import { getStorageService } from './storage-service'
+
+/**
+ * 按基金类型和名称选择默认比较基准
+ * QDII 对比纳斯达克100，名称中带创业板、中证500 的对比对应指数，其余对比沪深300
+ */
+export function defaultBenchmark(fund: Pick<Fund, 'name' | 'type'>): BenchmarkIndex {
+  const find = (code: string) => BENCHMARK_INDEXES.find((i) => i.code === code)!
+  const text = `${fund.type ?? ''}${fund.name}`
+  if (/QDII|纳斯达克|纳指|标普|美国/.test(text)) return find('NDX')
+  if (/创业板|双创/.test(text)) return find('399006')
+  if (/中证500|中小盘|小盘/.test(text)) return find('000905')
+  return find('000300')
+}
+
+/**
+ * 比较基准服务
+ * 管理每只基金的比较基准，并计算区间超额收益
+ */
+export class BenchmarkService {
+  /**
+   * 获取基金的比较基准
+   * @returns 基准指数及是否为默认选择
+   */
+  getBenchmark(code: string): { index: BenchmarkIndex; isDefault: boolean } {
+    const fund = getStorageService()
+      .getWatchlist()
+      .find((f) => f.code === code)
+    if (!fund) {
+      throw new Error('该基金不在自选列表中')
+    }
+
+    const chosen = BENCHMARK_INDEXES.find((i) => i.code === fund.benchmark)
+    return chosen
+      ? { index: chosen, isDefault: false }
+      : { index: defaultBenchmark(fund), isDefault: true }
+  }
+
+  /**
+   * 设置基金的比较基准
+   * @param indexCode 指数代码，为空表示恢复默认
+   */
+  setBenchmark(code: string, indexCode: string | null): void {
+    if (indexCode && !BENCHMARK_INDEXES.some((i) => i.code === indexCode)) {
+      throw new Error('不支持的比较基准')
+    }
+
+    const storage = getStorageService()
+    const watchlist = storage.getWatchlist()
+    const fund = watchlist.find((f) => f.code === code)
+    if (!fund) {
+      throw new Error('该基金不在自选列表中')
+    }
+    fund.benchmark = indexCode || undefined
+    storage.saveWatchlist(watchlist)
+  }
+
+  /**
+   * 计算基金在时间范围内相对比较基准的表现
+   * @returns 基金或指数数据不足时返回 null
+   * @throws 指数点位获取失败或数据源没有返回点位时抛出错误
+   */
+  async compare(code: string, range: HistoryRange): Promise<BenchmarkComparison | null> {
+    const { index, isDefault } = this.getBenchmark(code)
+    const [fundHistory, indexHistory] = await Promise.all([
+      fundFetcher.fetchNetValueHistory(code, range),
+      fundFetcher.fetchIndexHistory(index.code, range)
+    ])
+    if (indexHistory.length === 0) {
+      throw new Error(`数据源暂无${index.name}的历史点位`)
+    }
+    return performanceCalculator.compareWithBenchmark(fundHistory, indexHistory, index, isDefault)
+  }
+}
+
+// 单例实例
+let benchmarkInstance: BenchmarkService | null = null
+
+/**
+ * 获取比较基准服务单例
+ */
+export function getBenchmarkService(): BenchmarkService {
+  if (!benchmarkInstance) {
+    benchmarkInstance = new BenchmarkService()
+  }
+  return benchmarkInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetBenchmarkService(): void {
+  benchmarkInstance = null
+}
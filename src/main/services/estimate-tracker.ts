@@ -0,0 +1,147 @@
+import type {
+  CalibrationModel,
+  EstimateAccuracyReport,
+  EstimateRecord,
+  Fund,
+  Valuation
+} from '@shared/types'
+import { accuracyCalculator } from '../calculator/accuracy-calculator'
+import { calibrationCalculator } from '../calculator/calibration-calculator'
+import { getStorageService } from './storage-service'
+import { getMarketClock } from '../calendar'
+
+/** 准确度报告中返回的最近记录条数 */
+const REPORT_RECENT_RECORDS = 20
+
+/**
+ * 估值准确度跟踪服务
+ * 在真实净值公布时记录当天收盘估值与真实值，并生成每只基金的准确度报告
+ */
+export class EstimateTracker {
+  // 校准模型缓存，key 为 `${code}:${windowDays}`，记录新增时失效
+  private calibrationCache = new Map<string, CalibrationModel | null>()
+
+  /**
+   * 对比更新前后的基金列表，为刚拿到真实净值的基金记录收盘估值
+   * @param before 更新前的基金列表（仍是盘中估值）
+   * @param after 更新后的基金列表
+   */
+  recordClosings(before: Fund[], after: Fund[]): void {
+    const beforeMap = new Map(before.map((f) => [f.code, f]))
+
+    for (const fund of after) {
+      const previous = beforeMap.get(fund.code)
+      if (!previous) continue
+
+      const record = this.buildRecord(previous, fund)
+      if (record) {
+        try {
+          getStorageService().appendEstimateRecord(fund.code, record)
+          this.invalidateCalibration(fund.code)
+          console.log(
+            `Recorded estimate accuracy for ${fund.code} on ${record.date}: ` +
+              `estimated ${record.estimatedChange.toFixed(2)}%, real ${record.realChange.toFixed(2)}%`
+          )
+        } catch (error) {
+          console.error(`Failed to record estimate for ${fund.code}:`, error)
+        }
+      }
+    }
+  }
+
+  /**
+   * 生成基金的估值准确度报告
+   */
+  getReport(code: string): EstimateAccuracyReport {
+    const records = getStorageService().getEstimateHistory(code)
+    return {
+      code,
+      displayed: accuracyCalculator.calculate(records),
+      upstream: accuracyCalculator.calculate(records, (r) => r.upstreamChange),
+      self: accuracyCalculator.calculate(records, (r) => r.selfChange),
+      calibrated: accuracyCalculator.calculate(records, (r) => r.calibratedChange),
+      records: records.slice(-REPORT_RECENT_RECORDS).reverse()
+    }
+  }
+
+  /**
+   * 获取基金的估值校准模型
+   * @param code 基金代码
+   * @param windowDays 拟合使用的最近交易日数
+   * @returns 校准模型，历史样本不足时返回 null
+   */
+  getCalibrationModel(code: string, windowDays: number): CalibrationModel | null {
+    const key = `${code}:${windowDays}`
+    if (this.calibrationCache.has(key)) {
+      return this.calibrationCache.get(key) ?? null
+    }
+
+    const records = getStorageService().getEstimateHistory(code)
+    const model = calibrationCalculator.fit(
+      calibrationCalculator.extractSamples(records, windowDays)
+    )
+    this.calibrationCache.set(key, model)
+    return model
+  }
+
+  private invalidateCalibration(code: string): void {
+    for (const key of this.calibrationCache.keys()) {
+      if (key.startsWith(`${code}:`)) {
+        this.calibrationCache.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 构造对照记录
+   * 仅当基金从盘中估值切换为当天真实净值、且估值属于同一交易日时才记录
+   */
+  private buildRecord(previous: Fund, current: Fund): EstimateRecord | null {
+    if (previous.isRealValue || !current.isRealValue) return null
+
+    const date = current.netValueDate
+    if (!date || date === previous.netValueDate) return null
+    const clock = getMarketClock()
+    if (clock.dateOf(previous.updateTime) !== date) return null
+
+    // 只采用当天的估值，避免应用未运行的日子沿用旧估值
+    const sameDay = (valuation?: Valuation) =>
+      valuation && clock.dateOf(valuation.updateTime) === date ? valuation : undefined
+    const upstream = sameDay(previous.upstreamValuation)
+    const self = sameDay(previous.selfValuation)
+    const calibrated = sameDay(previous.calibratedValuation)
+
+    return {
+      date,
+      estimatedValue: previous.estimatedValue,
+      estimatedChange: previous.estimatedChange,
+      estimateSource: previous.estimateSource ?? 'upstream',
+      upstreamChange: upstream?.estimatedChange,
+      selfChange: self?.estimatedChange,
+      selfCoveredRatio: self?.coveredRatio,
+      calibratedChange: calibrated?.estimatedChange,
+      realValue: current.netValue,
+      realChange: current.estimatedChange
+    }
+  }
+}
+
+// 单例实例
+let trackerInstance: EstimateTracker | null = null
+
+/**
+ * 获取估值准确度跟踪服务单例
+ */
+export function getEstimateTracker(): EstimateTracker {
+  if (!trackerInstance) {
+    trackerInstance = new EstimateTracker()
+  }
+  return trackerInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetEstimateTracker(): void {
+  trackerInstance = null
+}
@@ -0,0 +1,132 @@
+import type { Fund, FundTagsUpdate } from '@shared/types'
+import { getStorageService } from './storage-service'
+
+/** 分组名称和标签的最大长度 */
+const MAX_NAME_LENGTH = 10
+
+/** 每只基金最多的标签数 */
+const MAX_TAGS = 10
+
+/**
+ * 分组服务
+ * 管理自选基金的分组和标签；分组列表单独保存以保留空分组和展示顺序
+ */
+export class GroupService {
+  /**
+   * 获取分组列表
+   */
+  getGroups(): string[] {
+    return getStorageService().getGroups()
+  }
+
+  /**
+   * 新建分组
+   */
+  create(name: string): string[] {
+    const trimmed = this.validateName(name)
+    const groups = this.getGroups()
+    if (groups.includes(trimmed)) {
+      throw new Error('已存在同名分组')
+    }
+    return this.save([...groups, trimmed])
+  }
+
+  /**
+   * 重命名分组，组内基金随之更新
+   */
+  rename(name: string, newName: string): string[] {
+    const trimmed = this.validateName(newName)
+    const groups = this.getGroups()
+    if (!groups.includes(name)) {
+      throw new Error('分组不存在')
+    }
+    if (trimmed !== name && groups.includes(trimmed)) {
+      throw new Error('已存在同名分组')
+    }
+
+    this.updateFunds((fund) => fund.group === name, { group: trimmed })
+    return this.save(groups.map((g) => (g === name ? trimmed : g)))
+  }
+
+  /**
+   * 删除分组，组内基金变为未分组
+   */
+  remove(name: string): string[] {
+    this.updateFunds((fund) => fund.group === name, { group: undefined })
+    return this.save(this.getGroups().filter((g) => g !== name))
+  }
+
+  /**
+   * 修改基金的分组和标签，不存在的分组会自动创建
+   */
+  updateFund(code: string, update: FundTagsUpdate): Fund {
+    const storage = getStorageService()
+    const watchlist = storage.getWatchlist()
+    const fund = watchlist.find((f) => f.code === code)
+    if (!fund) {
+      throw new Error('该基金不在自选列表中')
+    }
+
+    const group = update.group?.trim() ? this.validateName(update.group) : undefined
+    const tags = [...new Set((update.tags ?? []).map((tag) => this.validateName(tag)))]
+    if (tags.length > MAX_TAGS) {
+      throw new Error(`每只基金最多 ${MAX_TAGS} 个标签`)
+    }
+
+    fund.group = group
+    fund.tags = tags
+    storage.saveWatchlist(watchlist)
+
+    const groups = this.getGroups()
+    if (group && !groups.includes(group)) {
+      this.save([...groups, group])
+    }
+    return fund
+  }
+
+  private updateFunds(match: (fund: Fund) => boolean, patch: Partial<Fund>): void {
+    const storage = getStorageService()
+    const watchlist = storage.getWatchlist()
+    if (!watchlist.some(match)) return
+    storage.saveWatchlist(watchlist.map((fund) => (match(fund) ? { ...fund, ...patch } : fund)))
+  }
+
+  /**
+   * 校验分组或标签名称
+   */
+  private validateName(name: string): string {
+    const trimmed = (name ?? '').trim()
+    if (!trimmed) {
+      throw new Error('名称不能为空')
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new Error(`名称不能超过 ${MAX_NAME_LENGTH} 个字`)
+    }
+    return trimmed
+  }
+
+  private save(groups: string[]): string[] {
+    getStorageService().saveGroups(groups)
+    return groups
+  }
+}
+
+// 单例实例
+let groupServiceInstance: GroupService | null = null
+
+/**
+ * 获取分组服务单例
+ */
+export function getGroupService(): GroupService {
+  if (!groupServiceInstance) {
+    groupServiceInstance = new GroupService()
+  }
+  return groupServiceInstance
+}
+
+/**
+ * 重置分组服务（用于测试）
+ */
+export function resetGroupService(): void {
+  groupServiceInstance = null
+}
@@ -4,6 +4,25 @@ export { IPCHandler, getIPCHandler, resetIPCHandler } from './ipc-handler'
 export type { IPCResult } from './ipc-handler'
 export { UpdateScheduler, getUpdateScheduler, resetUpdateScheduler } from './update-scheduler'
 export type { SchedulerConfig, SchedulerStatus } from './update-scheduler'
+export { EstimateTracker, getEstimateTracker, resetEstimateTracker } from './estimate-tracker'
+export { IntradayRecorder, getIntradayRecorder, resetIntradayRecorder } from './intraday-recorder'
+export { ProfitTracker, getProfitTracker, resetProfitTracker } from './profit-tracker'
+export { LedgerService, getLedgerService, resetLedgerService } from './ledger-service'
+export { PlanService, getPlanService, resetPlanService } from './plan-service'
+export {
+  RedemptionService,
+  getRedemptionService,
+  resetRedemptionService
+} from './redemption-service'
+export { PortfolioService, getPortfolioService, resetPortfolioService } from './portfolio-service'
+export { AlertService, getAlertService, resetAlertService } from './alert-service'
+export { GroupService, getGroupService, resetGroupService } from './group-service'
+export {
+  BenchmarkService,
+  getBenchmarkService,
+  resetBenchmarkService,
+  defaultBenchmark
+} from './benchmark-service'
 export {
   ErrorHandler,
   getErrorHandler,
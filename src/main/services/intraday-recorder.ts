@@ -0,0 +1,74 @@
+import type { Fund, IntradayPoint, IntradaySeries } from '@shared/types'
+import { getStorageService } from './storage-service'
+import { getMarketClock } from '../calendar'
+
+/**
+ * 分时估值记录服务
+ * 每次估值更新时记录各基金当前的估算涨跌幅，形成当日分时曲线
+ */
+export class IntradayRecorder {
+  /**
+   * 记录一次估值更新
+   * @param funds 更新后的基金列表
+   * @param time 本次更新的时刻
+   */
+  record(funds: Fund[], time: Date = getMarketClock().now()): void {
+    // 只在连续竞价时段记录，午间休市和节假日没有数据点
+    const marketClock = getMarketClock()
+    if (!marketClock.isSessionOpen(time)) return
+
+    const { date, time: minute } = marketClock.getMarketTime(time)
+
+    const points: Record<string, IntradayPoint> = {}
+    for (const fund of funds) {
+      // 已公布真实净值或尚无估值的基金不记录
+      if (fund.isRealValue || isNaN(fund.estimatedChange) || !fund.estimatedValue) continue
+      points[fund.code] = {
+        time: minute,
+        estimatedValue: fund.estimatedValue,
+        estimatedChange: fund.estimatedChange
+      }
+    }
+
+    if (Object.keys(points).length === 0) return
+
+    try {
+      getStorageService().appendIntradayPoints(date, points)
+    } catch (error) {
+      console.error('Failed to record intraday estimates:', error)
+    }
+  }
+
+  /**
+   * 获取基金的分时估值序列
+   * @param code 基金代码
+   * @param date 交易日，缺省时返回最近一个有记录的交易日
+   */
+  getSeries(code: string, date?: string): IntradaySeries | null {
+    const days = getStorageService().getIntradaySeries(code)
+    if (date) {
+      return days.find((s) => s.date === date) ?? null
+    }
+    return days[days.length - 1] ?? null
+  }
+}
+
+// 单例实例
+let recorderInstance: IntradayRecorder | null = null
+
+/**
+ * 获取分时估值记录服务单例
+ */
+export function getIntradayRecorder(): IntradayRecorder {
+  if (!recorderInstance) {
+    recorderInstance = new IntradayRecorder()
+  }
+  return recorderInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetIntradayRecorder(): void {
+  recorderInstance = null
+}
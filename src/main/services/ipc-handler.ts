@@ -1,13 +1,73 @@
 import { ipcMain, BrowserWindow } from 'electron'
 import { IPC_CHANNELS } from '@shared/ipc-channels'
-import type { Fund, FundDetail } from '@shared/types'
-import { fundFetcher } from '../fetchers/fund-fetcher'
+import type {
+  AlertRule,
+  AlertRuleInput,
+  AlertTrigger,
+  AllocationSettings,
+  AppSettingsPatch,
+  BacktestConfig,
+  BacktestResult,
+  BenchmarkComparison,
+  DataProviderInfo,
+  DataSourceSettings,
+  EstimateAccuracyReport,
+  Fund,
+  FundBasicInfo,
+  FundComparison,
+  FundTagsUpdate,
+  HistoryRange,
+  IntradaySeries,
+  InvestmentPlanInput,
+  InvestmentPlanSummary,
+  Ledger,
+  PendingOrderInput,
+  PerformanceMetrics,
+  PortfolioState,
+  ProfitCalendar,
+  RedemptionFeeSchedule,
+  RedemptionFeeTier,
+  SellQuote,
+  TransactionInput,
+  Valuation
+} from '@shared/types'
+import type { StorageSchema } from '@shared/types/storage'
+import { fundFetcher, isUpstreamStale } from '../fetchers/fund-fetcher'
+import type { FundValuationResult } from '../fetchers/fund-fetcher'
 import { stockFetcher } from '../fetchers/stock-fetcher'
+import { getProviderRegistry } from '../fetchers/providers'
+import { getMarketClock } from '../calendar'
+import { valuationCalculator } from '../calculator/valuation-calculator'
+import { calibrationCalculator } from '../calculator/calibration-calculator'
+import { performanceCalculator } from '../calculator/performance-calculator'
+import { backtestCalculator } from '../calculator/backtest-calculator'
 import { getStorageService } from './storage-service'
+import { getEstimateTracker } from './estimate-tracker'
+import { getIntradayRecorder } from './intraday-recorder'
+import { getLedgerService } from './ledger-service'
+import { getPortfolioService } from './portfolio-service'
+import { getGroupService } from './group-service'
+import { getProfitTracker } from './profit-tracker'
+import { getBenchmarkService } from './benchmark-service'
+import { getPlanService } from './plan-service'
+import { getRedemptionService } from './redemption-service'
+import { getAlertService } from './alert-service'
 
 /** 最大并发请求数 */
 const MAX_CONCURRENT_REQUESTS = 5
 
+/**
+ * 将数据源估值结果转换为估值记录
+ */
+function toUpstreamValuation(result: FundValuationResult): Valuation {
+  return {
+    estimatedValue: result.estimatedValue,
+    estimatedChange: result.estimatedChange,
+    updateTime: result.updateTime,
+    isComplete: true
+  }
+}
+
 /**
  * 并发控制的批量执行
  * @param items 要处理的项目
@@ -67,8 +127,8 @@ export class IPCHandler {
     // 基金搜索
     ipcMain.handle(
       IPC_CHANNELS.FUND_SEARCH,
-      async (_event, code: string): Promise<IPCResult<FundDetail>> => {
-        return this.handleFundSearch(code)
+      async (_event, keyword: string): Promise<IPCResult<FundBasicInfo[]>> => {
+        return this.handleFundSearch(keyword)
       }
     )
 
@@ -111,11 +171,271 @@ export class IPCHandler {
       return this.handleWatchlistClear()
     })
 
-    // 更新基金份额
+    // 获取交易账本
+    ipcMain.handle(
+      IPC_CHANNELS.TRANSACTION_LIST,
+      async (_event, portfolioId: string, code: string): Promise<IPCResult<Ledger>> => {
+        return this.handleTransactionList(portfolioId, code)
+      }
+    )
+
+    // 新增交易记录
+    ipcMain.handle(
+      IPC_CHANNELS.TRANSACTION_ADD,
+      async (
+        _event,
+        portfolioId: string,
+        code: string,
+        input: TransactionInput
+      ): Promise<IPCResult<Ledger>> => {
+        return this.handleTransactionAdd(portfolioId, code, input)
+      }
+    )
+
+    // 删除交易记录
+    ipcMain.handle(
+      IPC_CHANNELS.TRANSACTION_REMOVE,
+      async (_event, portfolioId: string, code: string, id: string): Promise<IPCResult<Ledger>> => {
+        return this.handleTransactionRemove(portfolioId, code, id)
+      }
+    )
+
+    // 提交申购/赎回申请
+    ipcMain.handle(
+      IPC_CHANNELS.PENDING_ORDER_ADD,
+      async (
+        _event,
+        portfolioId: string,
+        code: string,
+        input: PendingOrderInput
+      ): Promise<IPCResult<Ledger>> => {
+        return this.handlePendingOrderAdd(portfolioId, code, input)
+      }
+    )
+
+    // 撤销申购/赎回申请
+    ipcMain.handle(
+      IPC_CHANNELS.PENDING_ORDER_CANCEL,
+      async (_event, portfolioId: string, code: string, id: string): Promise<IPCResult<Ledger>> => {
+        return this.handlePendingOrderCancel(portfolioId, code, id)
+      }
+    )
+
+    // 获取定投计划
+    ipcMain.handle(
+      IPC_CHANNELS.PLAN_LIST,
+      async (
+        _event,
+        portfolioId: string,
+        code: string
+      ): Promise<IPCResult<InvestmentPlanSummary[]>> => {
+        return this.handlePlan(
+          () => getPlanService().getPlans(portfolioId, code),
+          '获取定投计划失败'
+        )
+      }
+    )
+
+    // 新建定投计划
+    ipcMain.handle(
+      IPC_CHANNELS.PLAN_CREATE,
+      async (
+        _event,
+        portfolioId: string,
+        code: string,
+        input: InvestmentPlanInput
+      ): Promise<IPCResult<InvestmentPlanSummary[]>> => {
+        return this.handlePlan(
+          () => getPlanService().create(portfolioId, code, input),
+          '新建定投计划失败'
+        )
+      }
+    )
+
+    // 修改定投计划
+    ipcMain.handle(
+      IPC_CHANNELS.PLAN_UPDATE,
+      async (
+        _event,
+        id: string,
+        input: InvestmentPlanInput
+      ): Promise<IPCResult<InvestmentPlanSummary[]>> => {
+        return this.handlePlan(() => getPlanService().update(id, input), '修改定投计划失败')
+      }
+    )
+
+    // 删除定投计划
+    ipcMain.handle(
+      IPC_CHANNELS.PLAN_REMOVE,
+      async (_event, id: string): Promise<IPCResult<InvestmentPlanSummary[]>> => {
+        return this.handlePlan(() => getPlanService().remove(id), '删除定投计划失败')
+      }
+    )
+
+    // 获取提醒规则
+    ipcMain.handle(IPC_CHANNELS.ALERT_LIST, async (): Promise<IPCResult<AlertRule[]>> => {
+      return this.handleAlert(() => getAlertService().getRules(), '获取提醒规则失败')
+    })
+
+    // 新建提醒规则
+    ipcMain.handle(
+      IPC_CHANNELS.ALERT_CREATE,
+      async (_event, input: AlertRuleInput): Promise<IPCResult<AlertRule[]>> => {
+        return this.handleAlert(() => getAlertService().create(input), '新建提醒规则失败')
+      }
+    )
+
+    // 修改提醒规则
+    ipcMain.handle(
+      IPC_CHANNELS.ALERT_UPDATE,
+      async (_event, id: string, input: AlertRuleInput): Promise<IPCResult<AlertRule[]>> => {
+        return this.handleAlert(() => getAlertService().update(id, input), '修改提醒规则失败')
+      }
+    )
+
+    // 删除提醒规则
+    ipcMain.handle(
+      IPC_CHANNELS.ALERT_REMOVE,
+      async (_event, id: string): Promise<IPCResult<AlertRule[]>> => {
+        return this.handleAlert(() => getAlertService().remove(id), '删除提醒规则失败')
+      }
+    )
+
+    // 获取提醒触发记录
+    ipcMain.handle(IPC_CHANNELS.ALERT_HISTORY, async (): Promise<IPCResult<AlertTrigger[]>> => {
+      return this.handleAlertHistory()
+    })
+
+    // 测算赎回费
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_SELL_QUOTE,
+      async (_event, portfolioId: string, code: string): Promise<IPCResult<SellQuote>> => {
+        return this.handleSellQuote(portfolioId, code)
+      }
+    )
+
+    // 设置赎回费率表
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_SET_REDEMPTION_FEES,
+      async (
+        _event,
+        code: string,
+        tiers: RedemptionFeeTier[] | null
+      ): Promise<IPCResult<RedemptionFeeSchedule | null>> => {
+        return this.handleSetRedemptionFees(code, tiers)
+      }
+    )
+
+    // 获取分组列表
+    ipcMain.handle(IPC_CHANNELS.GROUP_LIST, async (): Promise<IPCResult<string[]>> => {
+      return this.handleGroup(() => getGroupService().getGroups(), '获取分组失败')
+    })
+
+    // 新建分组
+    ipcMain.handle(
+      IPC_CHANNELS.GROUP_CREATE,
+      async (_event, name: string): Promise<IPCResult<string[]>> => {
+        return this.handleGroup(() => getGroupService().create(name), '新建分组失败')
+      }
+    )
+
+    // 重命名分组
+    ipcMain.handle(
+      IPC_CHANNELS.GROUP_RENAME,
+      async (_event, name: string, newName: string): Promise<IPCResult<string[]>> => {
+        return this.handleGroup(() => getGroupService().rename(name, newName), '重命名分组失败')
+      }
+    )
+
+    // 删除分组
+    ipcMain.handle(
+      IPC_CHANNELS.GROUP_REMOVE,
+      async (_event, name: string): Promise<IPCResult<string[]>> => {
+        return this.handleGroup(() => getGroupService().remove(name), '删除分组失败')
+      }
+    )
+
+    // 修改基金的分组和标签
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_UPDATE_TAGS,
+      async (_event, code: string, update: FundTagsUpdate): Promise<IPCResult<Fund>> => {
+        return this.handleFundUpdateTags(code, update)
+      }
+    )
+
+    // 获取收益日历
+    ipcMain.handle(
+      IPC_CHANNELS.PROFIT_CALENDAR,
+      async (_event, year: number, portfolioId: string): Promise<IPCResult<ProfitCalendar>> => {
+        return this.handleProfitCalendar(year, portfolioId)
+      }
+    )
+
+    // 获取组合列表
+    ipcMain.handle(IPC_CHANNELS.PORTFOLIO_LIST, async (): Promise<IPCResult<PortfolioState>> => {
+      return this.handlePortfolio(() => getPortfolioService().getState(), '获取组合失败')
+    })
+
+    // 新建组合
+    ipcMain.handle(
+      IPC_CHANNELS.PORTFOLIO_CREATE,
+      async (_event, name: string): Promise<IPCResult<PortfolioState>> => {
+        return this.handlePortfolio(() => getPortfolioService().create(name), '新建组合失败')
+      }
+    )
+
+    // 重命名组合
+    ipcMain.handle(
+      IPC_CHANNELS.PORTFOLIO_RENAME,
+      async (_event, id: string, name: string): Promise<IPCResult<PortfolioState>> => {
+        return this.handlePortfolio(() => getPortfolioService().rename(id, name), '重命名组合失败')
+      }
+    )
+
+    // 设置组合目标配置
+    ipcMain.handle(
+      IPC_CHANNELS.PORTFOLIO_SET_ALLOCATION,
+      async (
+        _event,
+        id: string,
+        allocation: AllocationSettings | null
+      ): Promise<IPCResult<PortfolioState>> => {
+        return this.handlePortfolio(
+          () => getPortfolioService().setAllocation(id, allocation),
+          '保存目标配置失败'
+        )
+      }
+    )
+
+    // 删除组合
     ipcMain.handle(
-      IPC_CHANNELS.WATCHLIST_UPDATE_SHARES,
-      async (_event, code: string, shares: number): Promise<IPCResult<void>> => {
-        return this.handleUpdateShares(code, shares)
+      IPC_CHANNELS.PORTFOLIO_REMOVE,
+      async (_event, id: string): Promise<IPCResult<PortfolioState>> => {
+        return this.handlePortfolio(() => getPortfolioService().remove(id), '删除组合失败')
+      }
+    )
+
+    // 切换组合
+    ipcMain.handle(
+      IPC_CHANNELS.PORTFOLIO_SWITCH,
+      async (_event, id: string): Promise<IPCResult<PortfolioState>> => {
+        return this.handlePortfolio(() => getPortfolioService().switchTo(id), '切换组合失败')
+      }
+    )
+
+    // 获取估值准确度报告
+    ipcMain.handle(
+      IPC_CHANNELS.ESTIMATE_ACCURACY,
+      async (_event, code: string): Promise<IPCResult<EstimateAccuracyReport>> => {
+        return this.handleEstimateAccuracy(code)
+      }
+    )
+
+    // 获取分时估值
+    ipcMain.handle(
+      IPC_CHANNELS.INTRADAY_SERIES,
+      async (_event, code: string, date?: string): Promise<IPCResult<IntradaySeries | null>> => {
+        return this.handleIntradaySeries(code, date)
       }
     )
 
@@ -130,16 +450,121 @@ export class IPCHandler {
         return this.handleNetValueHistory(code, range as '1m' | '3m' | '6m' | '1y' | '3y' | 'all')
       }
     )
+
+    // 获取区间风险收益指标
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_PERFORMANCE,
+      async (
+        _event,
+        code: string,
+        range: HistoryRange
+      ): Promise<IPCResult<PerformanceMetrics | null>> => {
+        return this.handleFundPerformance(code, range)
+      }
+    )
+
+    // 多基金对比
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_COMPARE,
+      async (
+        _event,
+        codes: string[],
+        range: HistoryRange
+      ): Promise<IPCResult<FundComparison[]>> => {
+        return this.handleFundCompare(codes, range)
+      }
+    )
+
+    // 策略回测
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_BACKTEST,
+      async (
+        _event,
+        code: string,
+        config: BacktestConfig
+      ): Promise<IPCResult<BacktestResult | null>> => {
+        return this.handleFundBacktest(code, config)
+      }
+    )
+
+    // 获取相对比较基准的表现
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_BENCHMARK,
+      async (
+        _event,
+        code: string,
+        range: HistoryRange
+      ): Promise<IPCResult<BenchmarkComparison | null>> => {
+        return this.handleFundBenchmark(code, range)
+      }
+    )
+
+    // 设置比较基准
+    ipcMain.handle(
+      IPC_CHANNELS.FUND_SET_BENCHMARK,
+      async (_event, code: string, indexCode: string | null): Promise<IPCResult<void>> => {
+        return this.handleFundSetBenchmark(code, indexCode)
+      }
+    )
+
+    // 获取数据源列表
+    ipcMain.handle(
+      IPC_CHANNELS.DATA_SOURCE_LIST,
+      async (): Promise<IPCResult<DataProviderInfo[]>> => {
+        return this.handleDataSourceList()
+      }
+    )
+
+    // 切换数据源
+    ipcMain.handle(
+      IPC_CHANNELS.DATA_SOURCE_SET,
+      async (_event, id: string): Promise<IPCResult<DataProviderInfo[]>> => {
+        return this.handleDataSourceSet(id)
+      }
+    )
+
+    // 添加自定义数据源
+    ipcMain.handle(
+      IPC_CHANNELS.DATA_SOURCE_ADD,
+      async (_event, name: string, baseUrl: string): Promise<IPCResult<DataProviderInfo[]>> => {
+        return this.handleDataSourceAdd(name, baseUrl)
+      }
+    )
+
+    // 删除自定义数据源
+    ipcMain.handle(
+      IPC_CHANNELS.DATA_SOURCE_REMOVE,
+      async (_event, id: string): Promise<IPCResult<DataProviderInfo[]>> => {
+        return this.handleDataSourceRemove(id)
+      }
+    )
+
+    // 获取设置
+    ipcMain.handle(
+      IPC_CHANNELS.SETTINGS_GET,
+      async (): Promise<IPCResult<StorageSchema['settings']>> => {
+        return this.handleSettingsGet()
+      }
+    )
+
+    // 更新设置
+    ipcMain.handle(
+      IPC_CHANNELS.SETTINGS_UPDATE,
+      async (_event, patch: AppSettingsPatch): Promise<IPCResult<StorageSchema['settings']>> => {
+        return this.handleSettingsUpdate(patch)
+      }
+    )
   }
 
   /**
    * 处理基金搜索
    * Requirement 1.1: 从天天基金网查询匹配的基金信息
+   * 支持名称、拼音首字母和代码前缀模糊搜索，返回排序后的结果列表
    */
-  private async handleFundSearch(code: string): Promise<IPCResult<FundDetail>> {
+  private async handleFundSearch(keyword: string): Promise<IPCResult<FundBasicInfo[]>> {
     try {
-      const fundDetail = await fundFetcher.getFundDetail(code)
-      return { success: true, data: fundDetail }
+      const results = await fundFetcher.searchFunds(keyword)
+      return { success: true, data: results }
     } catch (error) {
       const message = error instanceof Error ? error.message : '搜索基金失败'
       return { success: false, error: message }
@@ -153,11 +578,17 @@ export class IPCHandler {
   private async handleFundAdd(code: string): Promise<IPCResult<Fund>> {
     try {
       const storage = getStorageService()
+      const portfolios = getPortfolioService()
       const watchlist = storage.getWatchlist()
 
-      // 检查是否已存在
-      if (watchlist.some((f) => f.code === code)) {
-        return { success: false, error: '该基金已在自选列表中' }
+      // 检查是否已存在；已在其他组合中的基金直接加入当前组合
+      const existing = watchlist.find((f) => f.code === code)
+      if (existing) {
+        if (portfolios.hasFund(code)) {
+          return { success: false, error: '该基金已在自选列表中' }
+        }
+        portfolios.addFund(code)
+        return { success: true, data: existing }
       }
 
       // 获取基金详情
@@ -185,18 +616,30 @@ export class IPCHandler {
       const fund: Fund = {
         code: fundDetail.code,
         name: fundDetail.name,
+        type: fundDetail.type,
         netValue: fundValuation?.netValue ?? fundDetail.netValue,
         netValueDate: fundValuation?.netValueDate ?? fundDetail.netValueDate,
         estimatedValue: fundValuation?.estimatedValue ?? fundDetail.netValue,
         estimatedChange: fundValuation?.estimatedChange ?? 0,
         updateTime: fundValuation?.updateTime ?? new Date().toISOString(),
         isRealValue: fundValuation?.isRealValue ?? false,
+        upstreamValuation: fundValuation ? toUpstreamValuation(fundValuation) : undefined,
+        estimateSource: 'upstream',
         holdings: updatedHoldings
       }
 
-      // 保存到自选列表
+      // 计算持仓自算估值
+      if (!fund.isRealValue && quotes.length > 0) {
+        fund.selfValuation = valuationCalculator.calculateValuation(fund, quotes)
+      }
+
+      // 之前删除过的基金重新添加时，沿用已有的交易记录
+      getLedgerService().applyLedger(fund)
+
+      // 保存到自选列表，并归入当前组合
       watchlist.push(fund)
       storage.saveWatchlist(watchlist)
+      portfolios.addFund(code)
 
       return { success: true, data: fund }
     } catch (error) {
@@ -212,15 +655,17 @@ export class IPCHandler {
   private async handleFundRemove(code: string): Promise<IPCResult<void>> {
     try {
       const storage = getStorageService()
-      const watchlist = storage.getWatchlist()
+      const portfolios = getPortfolioService()
 
-      const index = watchlist.findIndex((f) => f.code === code)
-      if (index === -1) {
+      if (!storage.getWatchlist().some((f) => f.code === code) || !portfolios.hasFund(code)) {
         return { success: false, error: '该基金不在自选列表中' }
       }
 
-      watchlist.splice(index, 1)
-      storage.saveWatchlist(watchlist)
+      // 从当前组合中移除，不再属于任何组合时才从自选列表中删除
+      // 移除时会删除交易记录并重新推算持仓，须在之后重新读取自选列表
+      if (portfolios.removeFunds([code]).includes(code)) {
+        storage.saveWatchlist(storage.getWatchlist().filter((f) => f.code !== code))
+      }
 
       return { success: true }
     } catch (error) {
@@ -251,6 +696,10 @@ export class IPCHandler {
     try {
       const storage = getStorageService()
       const watchlist = storage.getWatchlist()
+      // 应用关闭期间到达确认日的份额
+      if (getLedgerService().refreshPositions(watchlist)) {
+        storage.saveWatchlist(watchlist)
+      }
       return { success: true, data: watchlist }
     } catch (error) {
       const message = error instanceof Error ? error.message : '获取自选列表失败'
@@ -279,7 +728,15 @@ export class IPCHandler {
   private async handleWatchlistClear(): Promise<IPCResult<void>> {
     try {
       const storage = getStorageService()
-      storage.saveWatchlist([])
+      const portfolios = getPortfolioService()
+
+      // 清空当前组合，仍属于其他组合的基金保留在自选列表中
+      const codes = storage
+        .getWatchlist()
+        .filter((f) => portfolios.hasFund(f.code))
+        .map((f) => f.code)
+      const removed = portfolios.removeFunds(codes)
+      storage.saveWatchlist(storage.getWatchlist().filter((f) => !removed.includes(f.code)))
       return { success: true }
     } catch (error) {
       const message = error instanceof Error ? error.message : '清空自选列表失败'
@@ -288,24 +745,164 @@ export class IPCHandler {
   }
 
   /**
-   * 处理更新基金份额
+   * 处理分组操作
    */
-  private async handleUpdateShares(code: string, shares: number): Promise<IPCResult<void>> {
+  private async handleGroup(
+    action: () => string[],
+    fallback: string
+  ): Promise<IPCResult<string[]>> {
     try {
-      const storage = getStorageService()
-      const watchlist = storage.getWatchlist()
+      return { success: true, data: action() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : fallback
+      return { success: false, error: message }
+    }
+  }
 
-      const fund = watchlist.find((f) => f.code === code)
-      if (!fund) {
-        return { success: false, error: '该基金不在自选列表中' }
+  /**
+   * 处理修改基金的分组和标签
+   */
+  private async handleFundUpdateTags(
+    code: string,
+    update: FundTagsUpdate
+  ): Promise<IPCResult<Fund>> {
+    try {
+      return { success: true, data: getGroupService().updateFund(code, update) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '修改标签失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取收益日历
+   */
+  private async handleProfitCalendar(
+    year: number,
+    portfolioId: string
+  ): Promise<IPCResult<ProfitCalendar>> {
+    try {
+      return { success: true, data: getProfitTracker().getCalendar(year, portfolioId) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取收益日历失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理组合操作
+   * 组合操作都是同步的存储读写，统一包装为 IPC 结果
+   */
+  private async handlePortfolio(
+    action: () => PortfolioState,
+    fallback: string
+  ): Promise<IPCResult<PortfolioState>> {
+    try {
+      return { success: true, data: action() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : fallback
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取交易账本
+   */
+  private async handleTransactionList(
+    portfolioId: string,
+    code: string
+  ): Promise<IPCResult<Ledger>> {
+    try {
+      return { success: true, data: getLedgerService().getLedger(portfolioId, code) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取交易记录失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理新增交易记录
+   * 份额和成本价由账本推算后同步到自选列表
+   */
+  private async handleTransactionAdd(
+    portfolioId: string,
+    code: string,
+    input: TransactionInput
+  ): Promise<IPCResult<Ledger>> {
+    try {
+      return { success: true, data: getLedgerService().addTransaction(portfolioId, code, input) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '添加交易记录失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理删除交易记录
+   */
+  private async handleTransactionRemove(
+    portfolioId: string,
+    code: string,
+    id: string
+  ): Promise<IPCResult<Ledger>> {
+    try {
+      return { success: true, data: getLedgerService().removeTransaction(portfolioId, code, id) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '删除交易记录失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理提交申购/赎回申请
+   * 申请在 T 日净值公布后由净值更新服务确认，确认前不计入持仓
+   */
+  private async handlePendingOrderAdd(
+    portfolioId: string,
+    code: string,
+    input: PendingOrderInput
+  ): Promise<IPCResult<Ledger>> {
+    try {
+      return {
+        success: true,
+        data: getLedgerService().addPendingOrder(portfolioId, code, input)
       }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '提交申请失败'
+      return { success: false, error: message }
+    }
+  }
 
-      fund.shares = shares
-      storage.saveWatchlist(watchlist)
+  /**
+   * 处理撤销申购/赎回申请
+   */
+  private async handlePendingOrderCancel(
+    portfolioId: string,
+    code: string,
+    id: string
+  ): Promise<IPCResult<Ledger>> {
+    try {
+      return {
+        success: true,
+        data: getLedgerService().cancelPendingOrder(portfolioId, code, id)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '撤销申请失败'
+      return { success: false, error: message }
+    }
+  }
 
-      return { success: true }
+  /**
+   * 处理定投计划操作
+   */
+  private async handlePlan(
+    action: () => InvestmentPlanSummary[],
+    fallback: string
+  ): Promise<IPCResult<InvestmentPlanSummary[]>> {
+    try {
+      return { success: true, data: action() }
     } catch (error) {
-      const message = error instanceof Error ? error.message : '更新份额失败'
+      const message = error instanceof Error ? error.message : fallback
       return { success: false, error: message }
     }
   }
@@ -326,6 +923,321 @@ export class IPCHandler {
     }
   }
 
+  /**
+   * 处理获取区间风险收益指标
+   */
+  private async handleFundPerformance(
+    code: string,
+    range: HistoryRange
+  ): Promise<IPCResult<PerformanceMetrics | null>> {
+    try {
+      const history = await fundFetcher.fetchNetValueHistory(code, range)
+      return { success: true, data: performanceCalculator.calculate(history) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '计算风险收益指标失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理多基金对比：每只基金只请求一次历史净值，同时得到归一化曲线和指标
+   */
+  private async handleFundCompare(
+    codes: string[],
+    range: HistoryRange
+  ): Promise<IPCResult<FundComparison[]>> {
+    try {
+      const data = await Promise.all(
+        codes.map(async (code) => {
+          const history = await fundFetcher.fetchNetValueHistory(code, range)
+          return {
+            code,
+            series: performanceCalculator.normalize(history),
+            metrics: performanceCalculator.calculate(history)
+          }
+        })
+      )
+      return { success: true, data }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取对比数据失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理策略回测：取成立以来的全部净值，由计算器按回测区间截取
+   */
+  private async handleFundBacktest(
+    code: string,
+    config: BacktestConfig
+  ): Promise<IPCResult<BacktestResult | null>> {
+    try {
+      const history = await fundFetcher.fetchNetValueHistory(code, 'all')
+      return { success: true, data: backtestCalculator.run(history, config) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '策略回测失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取相对比较基准的表现
+   */
+  private async handleFundBenchmark(
+    code: string,
+    range: HistoryRange
+  ): Promise<IPCResult<BenchmarkComparison | null>> {
+    try {
+      return { success: true, data: await getBenchmarkService().compare(code, range) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取比较基准数据失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理设置比较基准
+   */
+  private async handleFundSetBenchmark(
+    code: string,
+    indexCode: string | null
+  ): Promise<IPCResult<void>> {
+    try {
+      getBenchmarkService().setBenchmark(code, indexCode)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '设置比较基准失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理提醒规则操作
+   */
+  private async handleAlert(
+    action: () => AlertRule[],
+    fallback: string
+  ): Promise<IPCResult<AlertRule[]>> {
+    try {
+      return { success: true, data: action() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : fallback
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取提醒触发记录
+   */
+  private async handleAlertHistory(): Promise<IPCResult<AlertTrigger[]>> {
+    try {
+      return { success: true, data: getAlertService().getHistory() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取提醒记录失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理赎回费测算
+   */
+  private async handleSellQuote(portfolioId: string, code: string): Promise<IPCResult<SellQuote>> {
+    try {
+      return { success: true, data: await getRedemptionService().quote(portfolioId, code) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '测算赎回费失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理设置赎回费率表，tiers 为 null 时恢复数据源费率
+   */
+  private async handleSetRedemptionFees(
+    code: string,
+    tiers: RedemptionFeeTier[] | null
+  ): Promise<IPCResult<RedemptionFeeSchedule | null>> {
+    try {
+      return { success: true, data: await getRedemptionService().setSchedule(code, tiers) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '设置赎回费率失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取估值准确度报告
+   */
+  private async handleEstimateAccuracy(code: string): Promise<IPCResult<EstimateAccuracyReport>> {
+    try {
+      return { success: true, data: getEstimateTracker().getReport(code) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取估值准确度失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取分时估值
+   */
+  private async handleIntradaySeries(
+    code: string,
+    date?: string
+  ): Promise<IPCResult<IntradaySeries | null>> {
+    try {
+      return { success: true, data: getIntradayRecorder().getSeries(code, date) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取分时估值失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取数据源列表
+   */
+  private async handleDataSourceList(): Promise<IPCResult<DataProviderInfo[]>> {
+    return { success: true, data: getProviderRegistry().list() }
+  }
+
+  /**
+   * 处理切换数据源
+   */
+  private async handleDataSourceSet(id: string): Promise<IPCResult<DataProviderInfo[]>> {
+    try {
+      if (
+        !getProviderRegistry()
+          .list()
+          .some((p) => p.id === id)
+      ) {
+        return { success: false, error: `未找到数据源: ${id}` }
+      }
+
+      const storage = getStorageService()
+      const { dataSource } = storage.getSettings()
+      const next = { ...dataSource, providerId: id }
+      this.applyDataSource(next)
+      storage.updateSettings({ dataSource: next })
+      return { success: true, data: getProviderRegistry().list() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '切换数据源失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理添加自定义数据源
+   */
+  private async handleDataSourceAdd(
+    name: string,
+    baseUrl: string
+  ): Promise<IPCResult<DataProviderInfo[]>> {
+    try {
+      const trimmedName = name.trim()
+      const trimmedUrl = baseUrl.trim()
+      if (!trimmedName) {
+        return { success: false, error: '请输入数据源名称' }
+      }
+      if (!/^https?:\/\/\S+$/.test(trimmedUrl)) {
+        return { success: false, error: '数据源地址应以 http:// 或 https:// 开头' }
+      }
+
+      const storage = getStorageService()
+      const { dataSource } = storage.getSettings()
+      const next = {
+        ...dataSource,
+        customSources: [
+          ...dataSource.customSources,
+          { id: `custom-${Date.now()}`, name: trimmedName, baseUrl: trimmedUrl }
+        ]
+      }
+      this.applyDataSource(next)
+      storage.updateSettings({ dataSource: next })
+      return { success: true, data: getProviderRegistry().list() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '添加数据源失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理删除自定义数据源
+   */
+  private async handleDataSourceRemove(id: string): Promise<IPCResult<DataProviderInfo[]>> {
+    try {
+      const storage = getStorageService()
+      const { dataSource } = storage.getSettings()
+      if (!dataSource.customSources.some((s) => s.id === id)) {
+        return { success: false, error: '只能删除自定义数据源' }
+      }
+      const next = {
+        providerId: dataSource.providerId === id ? 'default' : dataSource.providerId,
+        customSources: dataSource.customSources.filter((s) => s.id !== id)
+      }
+      this.applyDataSource(next)
+      storage.updateSettings({ dataSource: next })
+      return { success: true, data: getProviderRegistry().list() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '删除数据源失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理获取设置
+   */
+  private async handleSettingsGet(): Promise<IPCResult<StorageSchema['settings']>> {
+    try {
+      return { success: true, data: getStorageService().getSettings() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取设置失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 处理更新设置
+   * 只合并渲染进程可修改的设置项，数据源通过专门的通道修改
+   */
+  private async handleSettingsUpdate(
+    patch: AppSettingsPatch
+  ): Promise<IPCResult<StorageSchema['settings']>> {
+    try {
+      const storage = getStorageService()
+      const settings = storage.getSettings()
+
+      if (patch.calibration) {
+        const calibration = { ...settings.calibration, ...patch.calibration }
+        if (!Number.isInteger(calibration.windowDays) || calibration.windowDays < 1) {
+          return { success: false, error: '校准窗口天数应为正整数' }
+        }
+        storage.updateSettings({ calibration })
+      }
+
+      if (patch.ledger) {
+        const ledger = { ...settings.ledger, ...patch.ledger }
+        if (ledger.costMethod !== 'fifo' && ledger.costMethod !== 'average') {
+          return { success: false, error: '未知的成本计算方式' }
+        }
+        storage.updateSettings({ ledger })
+        // 成本计算方式变化后重新推算所有基金的持仓成本
+        getLedgerService().syncAll()
+      }
+
+      return { success: true, data: storage.getSettings() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '更新设置失败'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * 应用数据源设置，并清空旧数据源的行情缓存
+   */
+  private applyDataSource(dataSource: DataSourceSettings): void {
+    getProviderRegistry().applySettings(dataSource)
+    stockFetcher.clearCache()
+  }
+
   /**
    * 更新所有基金的估值
    * 用于定时更新和手动刷新
@@ -341,6 +1253,9 @@ export class IPCHandler {
       return []
     }
 
+    // 到达确认日的份额从今天起计入收益
+    getLedgerService().refreshPositions(watchlist)
+
     // 使用并发控制获取基金估值
     const valuations = await batchExecute(watchlist, (fund) =>
       fundFetcher.getFundValuation(fund.code, {
@@ -367,8 +1282,13 @@ export class IPCHandler {
     const quoteMap = new Map(quotes.map((q) => [q.code, q]))
     const hasStockQuotes = quotes.length > 0
 
+    // 午间休市时数据源估值停在 11:30，只在连续竞价时段判断是否过期
+    const sessionOpen = getMarketClock().isSessionOpen()
+    const { calibration } = storage.getSettings()
+    const tracker = getEstimateTracker()
+
     // 更新每个基金
-    const updatedFunds = watchlist.map((fund, index) => {
+    const updatedFunds = watchlist.map((fund, index): Fund => {
       const fundValuation = valuations[index]
 
       // 更新持仓的实时数据
@@ -383,27 +1303,69 @@ export class IPCHandler {
           })
         : fund.holdings
 
-      // 如果获取到新估值，使用新数据
-      if (fundValuation) {
+      // 如果获取到新估值，使用新数据；没有新数据，只更新持仓
+      const merged: Fund = fundValuation
+        ? {
+            ...fund,
+            netValue: fundValuation.isRealValue ? fundValuation.netValue : fund.netValue,
+            netValueDate: fundValuation.isRealValue
+              ? fundValuation.netValueDate
+              : fund.netValueDate,
+            estimatedValue: fundValuation.estimatedValue,
+            estimatedChange: fundValuation.estimatedChange,
+            updateTime: fundValuation.updateTime,
+            isRealValue: fundValuation.isRealValue,
+            upstreamValuation: toUpstreamValuation(fundValuation),
+            estimateSource: 'upstream',
+            holdings: updatedHoldings
+          }
+        : { ...fund, holdings: updatedHoldings }
+
+      // 真实净值已公布或没有行情时，不再自算估值
+      if (merged.isRealValue || !hasStockQuotes) {
+        return merged
+      }
+
+      const selfValuation = valuationCalculator.calculateValuation(merged, quotes)
+
+      // 启用校准时，附带按历史误差校准后的估值（不替换当前展示的估值）
+      const model = calibration.enabled
+        ? tracker.getCalibrationModel(merged.code, calibration.windowDays)
+        : null
+      if (model && (selfValuation.coveredRatio ?? 0) > 0) {
+        merged.calibration = model
+        merged.calibratedValuation = calibrationCalculator.calibrateValuation(
+          merged.netValue,
+          selfValuation,
+          model
+        )
+      } else {
+        merged.calibration = undefined
+        merged.calibratedValuation = undefined
+      }
+
+      // 盘中数据源估值缺失或过期时，回退到持仓自算估值
+      if (
+        sessionOpen &&
+        (selfValuation.coveredRatio ?? 0) > 0 &&
+        isUpstreamStale(merged.upstreamValuation)
+      ) {
         return {
-          ...fund,
-          netValue: fundValuation.isRealValue ? fundValuation.netValue : fund.netValue,
-          netValueDate: fundValuation.isRealValue ? fundValuation.netValueDate : fund.netValueDate,
-          estimatedValue: fundValuation.estimatedValue,
-          estimatedChange: fundValuation.estimatedChange,
-          updateTime: fundValuation.updateTime,
-          isRealValue: fundValuation.isRealValue,
-          holdings: updatedHoldings
+          ...merged,
+          estimatedValue: selfValuation.estimatedValue,
+          estimatedChange: selfValuation.estimatedChange,
+          updateTime: selfValuation.updateTime,
+          estimateSource: 'self',
+          selfValuation
         }
       }
 
-      // 没有新数据，只更新持仓
-      return {
-        ...fund,
-        holdings: updatedHoldings
-      }
+      return { ...merged, selfValuation }
     })
 
+    // 记录刚公布真实净值的基金的收盘估值
+    tracker.recordClosings(watchlist, updatedFunds)
+
     // 保存更新后的数据
     storage.saveWatchlist(updatedFunds)
 
@@ -445,8 +1407,48 @@ export class IPCHandler {
     ipcMain.removeHandler(IPC_CHANNELS.WATCHLIST_GET)
     ipcMain.removeHandler(IPC_CHANNELS.WATCHLIST_SAVE)
     ipcMain.removeHandler(IPC_CHANNELS.WATCHLIST_CLEAR)
-    ipcMain.removeHandler(IPC_CHANNELS.WATCHLIST_UPDATE_SHARES)
+    ipcMain.removeHandler(IPC_CHANNELS.TRANSACTION_LIST)
+    ipcMain.removeHandler(IPC_CHANNELS.TRANSACTION_ADD)
+    ipcMain.removeHandler(IPC_CHANNELS.TRANSACTION_REMOVE)
+    ipcMain.removeHandler(IPC_CHANNELS.PENDING_ORDER_ADD)
+    ipcMain.removeHandler(IPC_CHANNELS.PENDING_ORDER_CANCEL)
+    ipcMain.removeHandler(IPC_CHANNELS.PLAN_LIST)
+    ipcMain.removeHandler(IPC_CHANNELS.PLAN_CREATE)
+    ipcMain.removeHandler(IPC_CHANNELS.PLAN_UPDATE)
+    ipcMain.removeHandler(IPC_CHANNELS.PLAN_REMOVE)
+    ipcMain.removeHandler(IPC_CHANNELS.ALERT_LIST)
+    ipcMain.removeHandler(IPC_CHANNELS.ALERT_CREATE)
+    ipcMain.removeHandler(IPC_CHANNELS.ALERT_UPDATE)
+    ipcMain.removeHandler(IPC_CHANNELS.ALERT_REMOVE)
+    ipcMain.removeHandler(IPC_CHANNELS.ALERT_HISTORY)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_SELL_QUOTE)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_SET_REDEMPTION_FEES)
+    ipcMain.removeHandler(IPC_CHANNELS.GROUP_LIST)
+    ipcMain.removeHandler(IPC_CHANNELS.GROUP_CREATE)
+    ipcMain.removeHandler(IPC_CHANNELS.GROUP_RENAME)
+    ipcMain.removeHandler(IPC_CHANNELS.GROUP_REMOVE)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_UPDATE_TAGS)
+    ipcMain.removeHandler(IPC_CHANNELS.PROFIT_CALENDAR)
+    ipcMain.removeHandler(IPC_CHANNELS.PORTFOLIO_LIST)
+    ipcMain.removeHandler(IPC_CHANNELS.PORTFOLIO_CREATE)
+    ipcMain.removeHandler(IPC_CHANNELS.PORTFOLIO_RENAME)
+    ipcMain.removeHandler(IPC_CHANNELS.PORTFOLIO_REMOVE)
+    ipcMain.removeHandler(IPC_CHANNELS.PORTFOLIO_SWITCH)
+    ipcMain.removeHandler(IPC_CHANNELS.PORTFOLIO_SET_ALLOCATION)
     ipcMain.removeHandler(IPC_CHANNELS.NET_VALUE_HISTORY)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_PERFORMANCE)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_COMPARE)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_BACKTEST)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_BENCHMARK)
+    ipcMain.removeHandler(IPC_CHANNELS.FUND_SET_BENCHMARK)
+    ipcMain.removeHandler(IPC_CHANNELS.ESTIMATE_ACCURACY)
+    ipcMain.removeHandler(IPC_CHANNELS.INTRADAY_SERIES)
+    ipcMain.removeHandler(IPC_CHANNELS.DATA_SOURCE_LIST)
+    ipcMain.removeHandler(IPC_CHANNELS.DATA_SOURCE_SET)
+    ipcMain.removeHandler(IPC_CHANNELS.DATA_SOURCE_ADD)
+    ipcMain.removeHandler(IPC_CHANNELS.DATA_SOURCE_REMOVE)
+    ipcMain.removeHandler(IPC_CHANNELS.SETTINGS_GET)
+    ipcMain.removeHandler(IPC_CHANNELS.SETTINGS_UPDATE)
     this.mainWindow = null
   }
 }
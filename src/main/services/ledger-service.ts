@@ -0,0 +1,514 @@
+import type {
+  Fund,
+  Ledger,
+  PendingOrder,
+  PendingOrderInput,
+  PortfolioPosition,
+  Transaction,
+  TransactionInput
+} from '@shared/types'
+import { positionCalculator, sortTransactions } from '../calculator/position-calculator'
+import { fundFetcher } from '../fetchers/fund-fetcher'
+import { getMarketClock, getTradingCalendar } from '../calendar'
+import { createId } from '../utils'
+import { getStorageService } from './storage-service'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** QDII 基金份额在 T+2 确认，其余基金 T+1 */
+const QDII_CONFIRM_DAYS = 2
+const DEFAULT_CONFIRM_DAYS = 1
+
+/**
+ * 是否为 QDII 基金（优先按基金类型判断，旧数据没有类型时按名称判断）
+ */
+function isQdiiFund(fund: Fund | undefined): boolean {
+  if (!fund) return false
+  return /QDII/i.test(fund.type ?? '') || /QDII/i.test(fund.name)
+}
+
+/**
+ * 交易账本服务
+ * 按组合维护每只基金的交易记录，并把推算出的份额和成本价同步到自选列表：
+ * 各组合的持仓写入 positions，所有组合合计写入 shares/costPrice
+ */
+export class LedgerService {
+  /**
+   * 获取基金在某个组合中的交易账本
+   */
+  getLedger(portfolioId: string, code: string): Ledger {
+    const storage = getStorageService()
+    const method = storage.getSettings().ledger.costMethod
+    const transactions = sortTransactions(
+      storage.getTransactions(code).filter((t) => t.portfolioId === portfolioId)
+    )
+    return {
+      code,
+      portfolioId,
+      method,
+      transactions,
+      pending: this.getPendingOrders(portfolioId, code),
+      position: positionCalculator.calculate(transactions, method),
+      fund: storage.getWatchlist().find((f) => f.code === code)
+    }
+  }
+
+  /**
+   * 新增交易记录
+   * @throws 输入无效或赎回份额超过持有份额时抛出错误，此时不会保存
+   */
+  addTransaction(portfolioId: string, code: string, input: TransactionInput): Ledger {
+    this.assertPortfolio(portfolioId)
+    this.validate(input)
+
+    const transaction: Transaction = {
+      ...input,
+      id: createId(),
+      code,
+      portfolioId,
+      note: input.note?.trim() || undefined,
+      createdAt: new Date().toISOString()
+    }
+    return this.commit(portfolioId, code, [
+      ...getStorageService().getTransactions(code),
+      transaction
+    ])
+  }
+
+  /**
+   * 删除交易记录
+   * @throws 删除后出现超额赎回时抛出错误（例如删除了赎回之前的申购）
+   */
+  removeTransaction(portfolioId: string, code: string, id: string): Ledger {
+    const transactions = getStorageService().getTransactions(code)
+    if (!transactions.some((t) => t.id === id && t.portfolioId === portfolioId)) {
+      throw new Error('交易记录不存在')
+    }
+    return this.commit(
+      portfolioId,
+      code,
+      transactions.filter((t) => t.id !== id)
+    )
+  }
+
+  /**
+   * 提交申购/赎回申请
+   * 按 15:00 截止规则确定 T 日，份额在 T 日净值公布后才计入持仓
+   * @throws 输入无效或赎回份额超过可用份额时抛出错误
+   */
+  addPendingOrder(portfolioId: string, code: string, input: PendingOrderInput): Ledger {
+    this.assertPortfolio(portfolioId)
+    this.validatePending(input)
+
+    const storage = getStorageService()
+    const clock = getMarketClock()
+    const orderAt = input.orderTime ? new Date(clock.parseTime(input.orderTime)) : clock.now()
+    if (isNaN(orderAt.getTime())) {
+      throw new Error('提交时间无效')
+    }
+
+    const pending = this.getPendingOrders(portfolioId, code)
+    if (input.type === 'sell') {
+      const held = this.getLedger(portfolioId, code).position.shares
+      const selling = pending
+        .filter((o) => o.type === 'sell')
+        .reduce((acc, o) => acc + (o.shares ?? 0), 0)
+      if (input.shares! > held - selling + 0.005) {
+        throw new Error(`可赎回份额不足，当前可用 ${Math.max(held - selling, 0).toFixed(2)} 份`)
+      }
+    }
+
+    const fund = storage.getWatchlist().find((f) => f.code === code)
+    const tradeDate = clock.orderTradeDate(orderAt)
+    const order: PendingOrder = {
+      id: createId(),
+      code,
+      portfolioId,
+      type: input.type,
+      amount: input.type === 'buy' ? input.amount : undefined,
+      shares: input.type === 'sell' ? input.shares : undefined,
+      feeRate: input.feeRate,
+      orderTime: clock.formatTime(orderAt),
+      tradeDate,
+      confirmDate: getTradingCalendar().addTradingDays(
+        tradeDate,
+        isQdiiFund(fund) ? QDII_CONFIRM_DAYS : DEFAULT_CONFIRM_DAYS
+      ),
+      note: input.note?.trim() || undefined,
+      planId: input.planId,
+      createdAt: new Date().toISOString()
+    }
+
+    storage.savePendingOrders(code, [...storage.getPendingOrders(code), order])
+    return this.getLedger(portfolioId, code)
+  }
+
+  /**
+   * 撤销待确认的申请
+   */
+  cancelPendingOrder(portfolioId: string, code: string, id: string): Ledger {
+    const storage = getStorageService()
+    const pending = storage.getPendingOrders(code)
+    if (!pending.some((o) => o.id === id && o.portfolioId === portfolioId)) {
+      throw new Error('申请不存在或已确认')
+    }
+    storage.savePendingOrders(
+      code,
+      pending.filter((o) => o.id !== id)
+    )
+    return this.getLedger(portfolioId, code)
+  }
+
+  /**
+   * 确认 T 日净值已公布的申请，转为交易记录并同步传入基金的份额和成本价
+   * 确认时机为确认日的前一个交易日净值公布后（普通基金即 T 日晚间），
+   * 使份额从确认日起计入当日收益；基金列表由调用方保存
+   * @returns 确认的申请数
+   */
+  async confirmPending(funds: Fund[]): Promise<number> {
+    const storage = getStorageService()
+    const calendar = getTradingCalendar()
+    const today = getMarketClock().today()
+    const method = storage.getSettings().ledger.costMethod
+    let confirmed = 0
+
+    for (const [code, orders] of Object.entries(storage.getAllPendingOrders())) {
+      const fund = funds.find((f) => f.code === code)
+      const ready = orders.filter((o) => today >= calendar.previousTradingDay(o.confirmDate))
+      if (ready.length === 0) continue
+
+      const netValues = await this.loadNetValues(code, fund, ready)
+      let transactions = storage.getTransactions(code)
+      const remaining: PendingOrder[] = []
+
+      for (const order of [...orders].sort((a, b) => a.orderTime.localeCompare(b.orderTime))) {
+        const netValue = ready.includes(order) ? netValues.get(order.tradeDate) : undefined
+        if (!netValue) {
+          remaining.push(order)
+          continue
+        }
+
+        const next = [...transactions, this.toTransaction(order, netValue)]
+        try {
+          positionCalculator.calculate(
+            next.filter((t) => t.portfolioId === order.portfolioId),
+            method
+          )
+          transactions = next
+          confirmed++
+        } catch (error) {
+          console.error(`Failed to confirm order ${order.id} for ${code}:`, error)
+          remaining.push(order)
+        }
+      }
+
+      if (remaining.length !== orders.length) {
+        storage.saveTransactions(code, transactions)
+        storage.savePendingOrders(code, remaining)
+        if (fund) {
+          this.applyPositions(fund, transactions)
+        }
+      }
+    }
+
+    return confirmed
+  }
+
+  /**
+   * 按当前成本计算方式重新推算所有自选基金的持仓
+   */
+  syncAll(): Fund[] {
+    const storage = getStorageService()
+    const watchlist = storage.getWatchlist()
+
+    for (const fund of watchlist) {
+      const transactions = storage.getTransactions(fund.code)
+      if (transactions.length === 0) continue
+      try {
+        this.applyPositions(fund, transactions)
+      } catch (error) {
+        console.error(`Failed to derive position for ${fund.code}:`, error)
+      }
+    }
+
+    storage.saveWatchlist(watchlist)
+    return watchlist
+  }
+
+  /**
+   * 重新推算有交易记录的基金持仓，使到达确认日的份额开始计入
+   * 加载自选列表、估值更新和记录收益快照前调用，基金列表由调用方保存
+   * @returns 是否有基金的持仓发生变化
+   */
+  refreshPositions(funds: Fund[]): boolean {
+    const storage = getStorageService()
+    let changed = false
+    for (const fund of funds) {
+      const transactions = storage.getTransactions(fund.code)
+      if (transactions.length === 0) continue
+      const before = JSON.stringify([fund.shares, fund.costPrice, fund.positions])
+      try {
+        this.applyPositions(fund, transactions)
+      } catch (error) {
+        console.error(`Failed to derive position for ${fund.code}:`, error)
+      }
+      if (JSON.stringify([fund.shares, fund.costPrice, fund.positions]) !== before) {
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  /**
+   * 把账本推算的持仓写入基金（用于新添加到自选列表的基金）
+   */
+  applyLedger(fund: Fund): void {
+    const transactions = getStorageService().getTransactions(fund.code)
+    if (transactions.length === 0) return
+    this.applyPositions(fund, transactions)
+  }
+
+  /**
+   * 删除组合的交易记录和待确认申请，并重新推算自选基金的持仓
+   * @param only 只删除这些基金的记录（基金移出组合时），不传时删除全部
+   */
+  removePortfolioRecords(portfolioId: string, only?: string[]): void {
+    const storage = getStorageService()
+    const watchlist = storage.getWatchlist()
+    const codes = only
+      ? new Set(only)
+      : new Set([...watchlist.map((f) => f.code), ...Object.keys(storage.getAllPendingOrders())])
+
+    for (const code of codes) {
+      const transactions = storage.getTransactions(code)
+      const remaining = transactions.filter((t) => t.portfolioId !== portfolioId)
+      if (remaining.length !== transactions.length) {
+        storage.saveTransactions(code, remaining)
+        const fund = watchlist.find((f) => f.code === code)
+        if (fund) this.applyPositions(fund, remaining)
+      }
+
+      const pending = storage.getPendingOrders(code)
+      if (pending.some((o) => o.portfolioId === portfolioId)) {
+        storage.savePendingOrders(
+          code,
+          pending.filter((o) => o.portfolioId !== portfolioId)
+        )
+      }
+    }
+
+    storage.saveWatchlist(watchlist)
+  }
+
+  /**
+   * 校验推算结果后保存交易记录，并同步自选列表中的持仓
+   * @param transactions 该基金所有组合的交易记录
+   */
+  private commit(portfolioId: string, code: string, transactions: Transaction[]): Ledger {
+    const storage = getStorageService()
+    const method = storage.getSettings().ledger.costMethod
+    const own = transactions.filter((t) => t.portfolioId === portfolioId)
+    const position = positionCalculator.calculate(own, method)
+
+    storage.saveTransactions(code, transactions)
+
+    const watchlist = storage.getWatchlist()
+    const fund = watchlist.find((f) => f.code === code)
+    if (fund) {
+      this.applyPositions(fund, transactions)
+      storage.saveWatchlist(watchlist)
+    }
+
+    return {
+      code,
+      portfolioId,
+      method,
+      transactions: sortTransactions(own),
+      pending: this.getPendingOrders(portfolioId, code),
+      position,
+      fund
+    }
+  }
+
+  /**
+   * 组合不存在时抛出错误
+   */
+  private assertPortfolio(portfolioId: string): void {
+    if (
+      !getStorageService()
+        .getPortfolios()
+        .list.some((p) => p.id === portfolioId)
+    ) {
+      throw new Error('组合不存在')
+    }
+  }
+
+  /**
+   * 组合内的待确认申请（按提交时间升序）
+   */
+  private getPendingOrders(portfolioId: string, code: string): PendingOrder[] {
+    return getStorageService()
+      .getPendingOrders(code)
+      .filter((o) => o.portfolioId === portfolioId)
+      .sort((a, b) => a.orderTime.localeCompare(b.orderTime))
+  }
+
+  /**
+   * 获取申请所需 T 日的净值
+   * 优先使用自选列表中的最新净值，缺少的日期（如应用未运行时错过的）从历史净值中查找
+   */
+  private async loadNetValues(
+    code: string,
+    fund: Fund | undefined,
+    orders: PendingOrder[]
+  ): Promise<Map<string, number>> {
+    const netValues = new Map<string, number>()
+    if (fund && fund.netValue > 0) {
+      netValues.set(fund.netValueDate, fund.netValue)
+    }
+
+    // 最新净值日期早于 T 日时净值尚未公布，无需请求历史
+    const missing = orders.some(
+      (o) => !netValues.has(o.tradeDate) && (!fund || fund.netValueDate > o.tradeDate)
+    )
+    if (missing) {
+      const history = await fundFetcher.fetchNetValueHistory(code, '3m')
+      for (const item of history) {
+        if (item.value > 0 && !netValues.has(item.date)) {
+          netValues.set(item.date, item.value)
+        }
+      }
+    }
+
+    return netValues
+  }
+
+  /**
+   * 把确认的申请转为交易记录
+   */
+  private toTransaction(order: PendingOrder, netValue: number): Transaction {
+    return {
+      id: order.id,
+      code: order.code,
+      portfolioId: order.portfolioId,
+      type: order.type,
+      date: order.confirmDate,
+      amount: order.amount,
+      shares: order.shares,
+      netValue,
+      feeRate: order.feeRate,
+      note: order.note,
+      planId: order.planId,
+      createdAt: order.createdAt
+    }
+  }
+
+  /**
+   * 按组合推算持仓，写入各组合的份额和每份平均成本（含手续费）以及所有组合的合计
+   * 确认日在今天之后的交易（如 T 日晚间确认的申购）暂不计入，避免份额提前计入当日收益
+   * @param transactions 该基金所有组合的交易记录
+   */
+  private applyPositions(fund: Fund, all: Transaction[]): void {
+    const method = getStorageService().getSettings().ledger.costMethod
+    const today = getMarketClock().today()
+    const transactions = all.filter((t) => t.date <= today)
+    const portfolioIds = [...new Set(transactions.map((t) => t.portfolioId))]
+    const positions: Record<string, PortfolioPosition> = {}
+    let shares = 0
+    let cost = 0
+
+    for (const portfolioId of portfolioIds) {
+      const position = positionCalculator.calculate(
+        transactions.filter((t) => t.portfolioId === portfolioId),
+        method
+      )
+      if (position.shares <= 0) continue
+      positions[portfolioId] = { shares: position.shares, costPrice: position.averageCost }
+      shares += position.shares
+      cost += position.cost
+    }
+
+    fund.positions = Object.keys(positions).length > 0 ? positions : undefined
+    fund.shares = Math.round(shares * 100) / 100
+    fund.costPrice = shares > 0 ? cost / shares : undefined
+  }
+
+  /**
+   * 校验申购/赎回申请
+   */
+  private validatePending(input: PendingOrderInput): void {
+    const positive = (value: number | undefined): boolean =>
+      value !== undefined && Number.isFinite(value) && value > 0
+    const feeRate = input.feeRate
+
+    if (feeRate !== undefined && (!Number.isFinite(feeRate) || feeRate < 0 || feeRate >= 100)) {
+      throw new Error('手续费率无效')
+    }
+    if (input.type === 'buy' && !positive(input.amount)) {
+      throw new Error('申购金额应大于 0')
+    }
+    if (input.type === 'sell' && !positive(input.shares)) {
+      throw new Error('赎回份额应大于 0')
+    }
+    if (input.type !== 'buy' && input.type !== 'sell') {
+      throw new Error('未知的申请类型')
+    }
+  }
+
+  /**
+   * 校验交易输入
+   */
+  private validate(input: TransactionInput): void {
+    const positive = (value: number | undefined): boolean =>
+      value !== undefined && Number.isFinite(value) && value > 0
+    const validRate = (value: number | undefined): boolean =>
+      value === undefined || (Number.isFinite(value) && value >= 0 && value < 100)
+
+    if (!DATE_PATTERN.test(input.date)) {
+      throw new Error('确认日期无效')
+    }
+    if (!validRate(input.feeRate)) {
+      throw new Error('手续费率无效')
+    }
+
+    switch (input.type) {
+      case 'buy':
+        if (!positive(input.amount)) throw new Error('申购金额应大于 0')
+        if (!positive(input.netValue)) throw new Error('确认净值应大于 0')
+        break
+      case 'sell':
+        if (!positive(input.shares)) throw new Error('赎回份额应大于 0')
+        if (!positive(input.netValue)) throw new Error('确认净值应大于 0')
+        break
+      case 'dividend':
+        if (!positive(input.amount)) throw new Error('分红金额应大于 0')
+        break
+      case 'reinvest':
+        if (!positive(input.amount)) throw new Error('分红金额应大于 0')
+        if (!positive(input.netValue)) throw new Error('再投资净值应大于 0')
+        break
+      default:
+        throw new Error('未知的交易类型')
+    }
+  }
+}
+
+// 单例实例
+let ledgerServiceInstance: LedgerService | null = null
+
+/**
+ * 获取交易账本服务单例
+ */
+export function getLedgerService(): LedgerService {
+  if (!ledgerServiceInstance) {
+    ledgerServiceInstance = new LedgerService()
+  }
+  return ledgerServiceInstance
+}
+
+/**
+ * 重置交易账本服务（用于测试）
+ */
+export function resetLedgerService(): void {
+  ledgerServiceInstance = null
+}
@@ -1,6 +1,11 @@
 import { fundFetcher } from '../fetchers/fund-fetcher'
 import { getStorageService } from './storage-service'
 import { getIPCHandler } from './ipc-handler'
+import { getEstimateTracker } from './estimate-tracker'
+import { getProfitTracker } from './profit-tracker'
+import { getLedgerService } from './ledger-service'
+import { getPlanService } from './plan-service'
+import { getMarketClock, getTradingCalendar } from '../calendar'
 import type { Fund } from '@shared/types'
 
 /**
@@ -70,12 +75,22 @@ export class NetValueUpdater {
       return
     }
 
-    const today = this.getTodayDate()
-    const now = new Date()
-    const currentHour = now.getHours()
+    // 生成到期的定投申请，包括应用未运行期间错过的扣款日
+    this.runInvestmentPlans()
 
-    // 检查是否是工作日且已过检查时间
-    if (!this.isWeekday(now) || currentHour < this.config.checkHour) {
+    // 应用未运行期间已公布净值的申请（如昨晚关闭了应用），启动时补确认
+    const confirmed = await this.confirmPendingOrders(watchlist)
+    // 应用未运行期间到达确认日的份额，从确认日起计入收益
+    if (getLedgerService().refreshPositions(watchlist) || confirmed) {
+      storage.saveWatchlist(watchlist)
+      getIPCHandler().sendValuationUpdate(watchlist)
+    }
+
+    const clock = getMarketClock()
+    const today = clock.today()
+
+    // 检查是否是交易日且已过检查时间
+    if (!clock.isTradingDay() || clock.getMarketTime().minutes < this.config.checkHour * 60) {
       return
     }
 
@@ -99,7 +114,7 @@ export class NetValueUpdater {
     this.isUpdating = true
     const storage = getStorageService()
     const watchlist = storage.getWatchlist()
-    const today = this.getTodayDate()
+    const today = getMarketClock().today()
 
     let allUpdated = true
     const updatedFunds: Fund[] = []
@@ -137,6 +152,18 @@ export class NetValueUpdater {
       }
     }
 
+    // 记录收盘估值与真实净值，用于估值准确度统计
+    getEstimateTracker().recordClosings(watchlist, updatedFunds)
+
+    // 记录当日收益快照，须在确认申请之前（当晚确认的申购不计入当日收益）；
+    // 今天到达确认日的份额可能还没有被估值更新计入（如盘中未打开应用），先重新推算
+    getLedgerService().refreshPositions(updatedFunds)
+    getProfitTracker().recordDay(updatedFunds, today)
+
+    // 用刚公布的净值确认申购/赎回申请（含当天的定投申请）
+    this.runInvestmentPlans()
+    await this.confirmPendingOrders(updatedFunds)
+
     // 保存更新后的数据
     storage.saveWatchlist(updatedFunds)
 
@@ -164,17 +191,50 @@ export class NetValueUpdater {
     }
   }
 
+  /**
+   * 确认净值已公布的申购/赎回申请，同步基金的份额和成本价
+   * @returns 是否有申请被确认
+   */
+  private async confirmPendingOrders(funds: Fund[]): Promise<boolean> {
+    try {
+      const confirmed = await getLedgerService().confirmPending(funds)
+      if (confirmed > 0) {
+        console.log(`Confirmed ${confirmed} pending orders`)
+      }
+      return confirmed > 0
+    } catch (error) {
+      console.error('Failed to confirm pending orders:', error)
+      return false
+    }
+  }
+
+  /**
+   * 执行到期的定投计划，生成申购申请
+   */
+  private runInvestmentPlans(): void {
+    try {
+      const created = getPlanService().runDue()
+      if (created > 0) {
+        console.log(`Created ${created} investment plan orders`)
+      }
+    } catch (error) {
+      console.error('Failed to run investment plans:', error)
+    }
+  }
+
   /**
    * 设置每日定时检查
+   * 只在交易日的检查时间（北京时间）触发，休市日不会公布新净值
    */
   private scheduleDailyCheck(): void {
-    const now = new Date()
-    const checkTime = new Date(now)
-    checkTime.setHours(this.config.checkHour, 0, 0, 0)
-
-    // 如果今天的检查时间已过，设置明天的
-    if (now >= checkTime) {
-      checkTime.setDate(checkTime.getDate() + 1)
+    const clock = getMarketClock()
+    const now = clock.now()
+    const today = clock.today(now)
+    const checkMinutes = this.config.checkHour * 60
+
+    let checkTime = clock.toInstant(today, checkMinutes)
+    if (!clock.isTradingDay(now) || now >= checkTime) {
+      checkTime = clock.toInstant(getTradingCalendar().nextTradingDay(today), checkMinutes)
     }
 
     const delay = checkTime.getTime() - now.getTime()
@@ -183,26 +243,10 @@ export class NetValueUpdater {
     this.checkTimer = setTimeout(() => {
       this.retryCount = 0
       this.updateNetValues()
-      // 设置下一天的检查
+      // 设置下一个交易日的检查
       this.scheduleDailyCheck()
     }, delay)
   }
-
-  /**
-   * 获取今天的日期字符串 (YYYY-MM-DD)
-   */
-  private getTodayDate(): string {
-    return new Date().toISOString().split('T')[0]
-  }
-
-  /**
-   * 判断是否是工作日（周一到周五）
-   * 注意：不能判断节假日，只是基本过滤
-   */
-  private isWeekday(date: Date): boolean {
-    const day = date.getDay()
-    return day !== 0 && day !== 6
-  }
 }
 
 // 单例实例
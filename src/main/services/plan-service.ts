@@ -0,0 +1,324 @@
+import type {
+  InvestmentPlan,
+  InvestmentPlanInput,
+  InvestmentPlanSummary,
+  Transaction
+} from '@shared/types'
+import { getMarketClock, getTradingCalendar } from '../calendar'
+import { round2, addDays, createId } from '../utils'
+import { getStorageService } from './storage-service'
+import { getLedgerService } from './ledger-service'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** 定投申请的提交时间（开盘时），保证按扣款日当天的净值确认 */
+const ORDER_TIME = '09:30'
+
+/**
+ * 按计划规则依次生成名义扣款日（未考虑休市）
+ */
+function* nominalDates(plan: InvestmentPlan): Generator<string> {
+  if (plan.frequency === 'monthly') {
+    const day = String(plan.dayOfMonth).padStart(2, '0')
+    let [year, month] = plan.startDate.split('-').map(Number)
+    for (;;) {
+      const date = `${year}-${String(month).padStart(2, '0')}-${day}`
+      if (date >= plan.startDate) yield date
+      month++
+      if (month > 12) {
+        month = 1
+        year++
+      }
+    }
+  }
+
+  // 找到开始日期及之后的第一个扣款星期
+  const startWeekday = new Date(`${plan.startDate}T00:00:00Z`).getUTCDay()
+  let date = addDays(plan.startDate, (plan.weekday! - startWeekday + 7) % 7)
+  const step = plan.frequency === 'biweekly' ? 14 : 7
+  for (;;) {
+    yield date
+    date = addDays(date, step)
+  }
+}
+
+/**
+ * 按扣款日升序生成实际执行日：遇休市顺延到下一个交易日，
+ * 顺延后与上一期重合（如长假跨过一整周）时只执行一次
+ */
+export function* runDates(plan: InvestmentPlan): Generator<string> {
+  const calendar = getTradingCalendar()
+  let previous = ''
+  for (const nominal of nominalDates(plan)) {
+    const date = calendar.addTradingDays(nominal, 0)
+    if (date === previous) continue
+    previous = date
+    yield date
+  }
+}
+
+/**
+ * 定投计划服务
+ * 在交易日按计划生成申购申请，申请随净值公布由账本服务确认为交易记录
+ */
+export class PlanService {
+  /**
+   * 获取基金在组合中的定投计划及执行情况
+   */
+  getPlans(portfolioId: string, code: string): InvestmentPlanSummary[] {
+    return getStorageService()
+      .getInvestmentPlans()
+      .filter((p) => p.portfolioId === portfolioId && p.code === code)
+      .map((p) => this.summarize(p))
+  }
+
+  /**
+   * 新建定投计划
+   */
+  create(portfolioId: string, code: string, input: InvestmentPlanInput): InvestmentPlanSummary[] {
+    this.validate(input)
+    this.assertNotPast(input.startDate)
+    const storage = getStorageService()
+    if (!storage.getPortfolios().list.some((p) => p.id === portfolioId)) {
+      throw new Error('组合不存在')
+    }
+
+    const plan: InvestmentPlan = {
+      ...this.normalize(input),
+      id: createId(),
+      code,
+      portfolioId,
+      executedThrough: addDays(input.startDate, -1),
+      createdAt: new Date().toISOString()
+    }
+    storage.saveInvestmentPlans([...storage.getInvestmentPlans(), plan])
+    return this.getPlans(portfolioId, code)
+  }
+
+  /**
+   * 修改定投计划
+   * 重新启用暂停的计划时，从今天开始执行，暂停期间的扣款日不补扣
+   */
+  update(id: string, input: InvestmentPlanInput): InvestmentPlanSummary[] {
+    this.validate(input)
+    const storage = getStorageService()
+    const plans = storage.getInvestmentPlans()
+    const plan = plans.find((p) => p.id === id)
+    if (!plan) {
+      throw new Error('定投计划不存在')
+    }
+
+    const next: InvestmentPlan = { ...plan, ...this.normalize(input) }
+    const yesterday = addDays(getMarketClock().today(), -1)
+    if (next.enabled && !plan.enabled && next.executedThrough < yesterday) {
+      next.executedThrough = yesterday
+    }
+    if (next.startDate !== plan.startDate) {
+      this.assertNotPast(next.startDate)
+      next.executedThrough = addDays(next.startDate, -1)
+    }
+
+    storage.saveInvestmentPlans(plans.map((p) => (p.id === id ? next : p)))
+    return this.getPlans(plan.portfolioId, plan.code)
+  }
+
+  /**
+   * 删除定投计划，已生成的申请和交易记录保留
+   */
+  remove(id: string): InvestmentPlanSummary[] {
+    const storage = getStorageService()
+    const plans = storage.getInvestmentPlans()
+    const plan = plans.find((p) => p.id === id)
+    if (!plan) {
+      throw new Error('定投计划不存在')
+    }
+    storage.saveInvestmentPlans(plans.filter((p) => p.id !== id))
+    return this.getPlans(plan.portfolioId, plan.code)
+  }
+
+  /**
+   * 删除组合的定投计划
+   * @param only 只删除这些基金的计划（基金移出组合时），不传时删除全部
+   */
+  removePortfolioPlans(portfolioId: string, only?: string[]): void {
+    const storage = getStorageService()
+    const plans = storage.getInvestmentPlans()
+    const matches = (p: InvestmentPlan): boolean =>
+      p.portfolioId === portfolioId && (!only || only.includes(p.code))
+    if (plans.some(matches)) {
+      storage.saveInvestmentPlans(plans.filter((p) => !matches(p)))
+    }
+  }
+
+  /**
+   * 执行截至今天到期的扣款，生成申购申请
+   * 应用未运行期间错过的扣款日会补生成，按各自扣款日的净值确认；
+   * 基金已不在组合中的计划跳过到期的扣款
+   * @returns 生成的申请数
+   */
+  runDue(): number {
+    const storage = getStorageService()
+    const today = getMarketClock().today()
+    const { list } = storage.getPortfolios()
+    const plans = storage.getInvestmentPlans()
+    let created = 0
+
+    const updated = plans.map((plan) => {
+      if (!plan.enabled || plan.executedThrough >= today) return plan
+
+      const held = list.some((p) => p.id === plan.portfolioId && p.codes.includes(plan.code))
+      let executedThrough = plan.executedThrough
+      for (const date of runDates(plan)) {
+        if (date > today) break
+        if (date <= executedThrough) continue
+        if (held) {
+          try {
+            getLedgerService().addPendingOrder(plan.portfolioId, plan.code, {
+              type: 'buy',
+              amount: plan.amount,
+              feeRate: plan.feeRate,
+              orderTime: `${date} ${ORDER_TIME}`,
+              note: '定投',
+              planId: plan.id
+            })
+            created++
+          } catch (error) {
+            console.error(`Failed to run investment plan ${plan.id} on ${date}:`, error)
+            return { ...plan, executedThrough }
+          }
+        }
+        executedThrough = date
+      }
+      return { ...plan, executedThrough: today }
+    })
+
+    storage.saveInvestmentPlans(updated)
+    return created
+  }
+
+  /**
+   * 汇总计划的执行情况
+   */
+  private summarize(plan: InvestmentPlan): InvestmentPlanSummary {
+    const storage = getStorageService()
+    const transactions = storage
+      .getTransactions(plan.code)
+      .filter((t) => t.planId === plan.id && t.type === 'buy')
+    const pending = storage.getPendingOrders(plan.code).filter((o) => o.planId === plan.id)
+
+    const fund = storage.getWatchlist().find((f) => f.code === plan.code)
+    const latestValue = fund ? fund.estimatedValue || fund.netValue : 0
+
+    const confirmedAmount = transactions.reduce((acc, t) => acc + (t.amount ?? 0), 0)
+    const pendingAmount = pending.reduce((acc, o) => acc + (o.amount ?? 0), 0)
+    const shares = round2(transactions.reduce((acc, t) => acc + this.sharesOf(t), 0))
+    const totalInvested = confirmedAmount + pendingAmount
+    const currentValue = round2(shares * latestValue + pendingAmount)
+    const profit = round2(currentValue - totalInvested)
+
+    // 执行日严格递增，总能找到晚于已处理日期的一期
+    let nextRunDate: string | null = null
+    if (plan.enabled) {
+      for (const date of runDates(plan)) {
+        if (date > plan.executedThrough) {
+          nextRunDate = date
+          break
+        }
+      }
+    }
+
+    return {
+      plan,
+      nextRunDate,
+      executions: transactions.length + pending.length,
+      pendingAmount,
+      totalInvested,
+      shares,
+      currentValue,
+      profit,
+      returnRate: totalInvested > 0 ? (profit / totalInvested) * 100 : 0
+    }
+  }
+
+  /**
+   * 申购确认的份额（与持仓推算一致：扣除手续费后按确认净值折算）
+   */
+  private sharesOf(tx: Transaction): number {
+    if (tx.shares !== undefined) return tx.shares
+    if (!tx.netValue) return 0
+    const netAmount = (tx.amount ?? 0) / (1 + (tx.feeRate ?? 0) / 100)
+    return round2(netAmount / tx.netValue)
+  }
+
+  /**
+   * 只保留频率对应的扣款日字段
+   */
+  private normalize(
+    input: InvestmentPlanInput
+  ): Omit<InvestmentPlan, 'id' | 'code' | 'portfolioId' | 'executedThrough' | 'createdAt'> {
+    return {
+      amount: input.amount,
+      feeRate: input.feeRate ?? 0,
+      frequency: input.frequency,
+      weekday: input.frequency === 'monthly' ? undefined : input.weekday,
+      dayOfMonth: input.frequency === 'monthly' ? input.dayOfMonth : undefined,
+      startDate: input.startDate,
+      enabled: input.enabled
+    }
+  }
+
+  /**
+   * 开始日期不能早于今天，之前的申购请直接录入交易记录
+   */
+  private assertNotPast(startDate: string): void {
+    if (startDate < getMarketClock().today()) {
+      throw new Error('开始日期不能早于今天')
+    }
+  }
+
+  /**
+   * 校验计划输入
+   */
+  private validate(input: InvestmentPlanInput): void {
+    if (!(input.amount > 0)) {
+      throw new Error('每期金额必须大于 0')
+    }
+    if (input.feeRate !== undefined && (input.feeRate < 0 || input.feeRate >= 100)) {
+      throw new Error('费率无效')
+    }
+    if (!DATE_PATTERN.test(input.startDate)) {
+      throw new Error('开始日期格式无效')
+    }
+    if (input.frequency === 'monthly') {
+      if (!Number.isInteger(input.dayOfMonth) || input.dayOfMonth! < 1 || input.dayOfMonth! > 28) {
+        throw new Error('每月扣款日需为 1 到 28 日')
+      }
+    } else if (input.frequency === 'weekly' || input.frequency === 'biweekly') {
+      if (!Number.isInteger(input.weekday) || input.weekday! < 1 || input.weekday! > 5) {
+        throw new Error('扣款日需为周一至周五')
+      }
+    } else {
+      throw new Error('定投频率无效')
+    }
+  }
+}
+
+// 单例实例
+let planServiceInstance: PlanService | null = null
+
+/**
+ * 获取定投计划服务单例
+ */
+export function getPlanService(): PlanService {
+  if (!planServiceInstance) {
+    planServiceInstance = new PlanService()
+  }
+  return planServiceInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetPlanService(): void {
+  planServiceInstance = null
+}
@@ -0,0 +1,255 @@
+import { ALL_PORTFOLIOS } from '@shared/types'
+import type { AllocationSettings, Portfolio, PortfolioState } from '@shared/types'
+import { getStorageService } from './storage-service'
+import { getLedgerService } from './ledger-service'
+import { getPlanService } from './plan-service'
+import { getAlertService } from './alert-service'
+
+/** 组合名称最大长度 */
+const MAX_NAME_LENGTH = 20
+
+/** 目标权重合计允许的误差 (百分点) */
+const WEIGHT_TOLERANCE = 0.01
+
+/**
+ * 组合服务
+ * 管理组合列表、当前查看的组合以及基金归属；基金行情数据仍保存在同一份自选列表中
+ */
+export class PortfolioService {
+  /**
+   * 获取组合列表及当前查看的组合
+   */
+  getState(): PortfolioState {
+    const { list, activeId } = getStorageService().getPortfolios()
+    return { portfolios: list, activeId }
+  }
+
+  /**
+   * 新建组合并切换到该组合
+   */
+  create(name: string): PortfolioState {
+    const trimmed = this.validateName(name)
+    const { list } = getStorageService().getPortfolios()
+
+    const portfolio: Portfolio = {
+      id: `portfolio-${Date.now().toString(36)}`,
+      name: trimmed,
+      codes: [],
+      createdAt: new Date().toISOString()
+    }
+    return this.save([...list, portfolio], portfolio.id)
+  }
+
+  /**
+   * 重命名组合
+   */
+  rename(id: string, name: string): PortfolioState {
+    const trimmed = this.validateName(name, id)
+    const { list, activeId } = getStorageService().getPortfolios()
+    if (!list.some((p) => p.id === id)) {
+      throw new Error('组合不存在')
+    }
+    return this.save(
+      list.map((p) => (p.id === id ? { ...p, name: trimmed } : p)),
+      activeId
+    )
+  }
+
+  /**
+   * 设置组合的目标配置
+   * @param allocation 目标配置，null 表示清除
+   */
+  setAllocation(id: string, allocation: AllocationSettings | null): PortfolioState {
+    const { list, activeId } = getStorageService().getPortfolios()
+    if (!list.some((p) => p.id === id)) {
+      throw new Error('组合不存在')
+    }
+    const next = allocation ? this.validateAllocation(allocation) : undefined
+    return this.save(
+      list.map((p) => (p.id === id ? { ...p, allocation: next } : p)),
+      activeId
+    )
+  }
+
+  /**
+   * 删除组合及其交易记录，不再属于任何组合的基金从自选列表中移除
+   */
+  remove(id: string): PortfolioState {
+    const { list, activeId } = getStorageService().getPortfolios()
+    if (!list.some((p) => p.id === id)) {
+      throw new Error('组合不存在')
+    }
+    if (list.length === 1) {
+      throw new Error('至少需要保留一个组合')
+    }
+
+    const remaining = list.filter((p) => p.id !== id)
+    const state = this.save(remaining, activeId === id ? remaining[0].id : activeId)
+    getLedgerService().removePortfolioRecords(id)
+    getPlanService().removePortfolioPlans(id)
+    getAlertService().removePortfolioRules(id)
+    this.pruneWatchlist()
+    return state
+  }
+
+  /**
+   * 切换当前查看的组合
+   * @param id 组合标识，ALL_PORTFOLIOS 表示全部组合
+   */
+  switchTo(id: string): PortfolioState {
+    const { list } = getStorageService().getPortfolios()
+    if (id !== ALL_PORTFOLIOS && !list.some((p) => p.id === id)) {
+      throw new Error('组合不存在')
+    }
+    return this.save(list, id)
+  }
+
+  /**
+   * 新添加的基金归入的组合：当前组合，查看全部组合时为第一个组合
+   */
+  getTargetId(): string {
+    const { list, activeId } = getStorageService().getPortfolios()
+    return activeId === ALL_PORTFOLIOS ? list[0].id : activeId
+  }
+
+  /**
+   * 当前查看的组合中是否包含该基金
+   */
+  hasFund(code: string): boolean {
+    const { list, activeId } = getStorageService().getPortfolios()
+    return list.some(
+      (p) => (activeId === ALL_PORTFOLIOS || p.id === activeId) && p.codes.includes(code)
+    )
+  }
+
+  /**
+   * 把基金加入新添加基金的目标组合
+   */
+  addFund(code: string): void {
+    const targetId = this.getTargetId()
+    const { list, activeId } = getStorageService().getPortfolios()
+    this.save(
+      list.map((p) =>
+        p.id === targetId && !p.codes.includes(code) ? { ...p, codes: [...p.codes, code] } : p
+      ),
+      activeId
+    )
+  }
+
+  /**
+   * 从当前组合中移除基金（查看全部组合时从所有组合中移除），
+   * 同时删除基金在这些组合中的交易记录、待确认申请、定投计划和提醒规则
+   * @returns 已不属于任何组合的基金代码
+   */
+  removeFunds(codes: string[]): string[] {
+    const { list, activeId } = getStorageService().getPortfolios()
+    const next = list.map((p) =>
+      activeId === ALL_PORTFOLIOS || p.id === activeId
+        ? { ...p, codes: p.codes.filter((c) => !codes.includes(c)) }
+        : p
+    )
+    this.save(next, activeId)
+
+    list.forEach((p, index) => {
+      const removed = p.codes.filter((c) => !next[index].codes.includes(c))
+      if (removed.length > 0) {
+        getLedgerService().removePortfolioRecords(p.id, removed)
+        getPlanService().removePortfolioPlans(p.id, removed)
+        getAlertService().removePortfolioRules(p.id, removed)
+      }
+    })
+    return codes.filter((code) => !next.some((p) => p.codes.includes(code)))
+  }
+
+  /**
+   * 从自选列表中移除不属于任何组合的基金
+   */
+  private pruneWatchlist(): void {
+    const storage = getStorageService()
+    const { list } = storage.getPortfolios()
+    const codes = new Set(list.flatMap((p) => p.codes))
+    const watchlist = storage.getWatchlist()
+    const kept = watchlist.filter((f) => codes.has(f.code))
+    if (kept.length !== watchlist.length) {
+      storage.saveWatchlist(kept)
+    }
+  }
+
+  /**
+   * 校验组合名称（不能为空，不能与其他组合重名）
+   */
+  private validateName(name: string, excludeId?: string): string {
+    const trimmed = (name ?? '').trim()
+    if (!trimmed) {
+      throw new Error('组合名称不能为空')
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new Error(`组合名称不能超过 ${MAX_NAME_LENGTH} 个字`)
+    }
+    const { list } = getStorageService().getPortfolios()
+    if (list.some((p) => p.id !== excludeId && p.name === trimmed)) {
+      throw new Error('已存在同名组合')
+    }
+    return trimmed
+  }
+
+  /**
+   * 校验目标配置：权重非负且合计 100%，同一项不能重复设置，忽略权重为 0 的项
+   */
+  private validateAllocation(allocation: AllocationSettings): AllocationSettings {
+    if (allocation.mode !== 'fund' && allocation.mode !== 'tag') {
+      throw new Error('配置方式无效')
+    }
+    const targets = allocation.targets
+      .map((t) => ({ key: (t.key ?? '').trim(), weight: t.weight }))
+      .filter((t) => t.key && t.weight !== 0)
+    if (targets.some((t) => !(t.weight > 0) || t.weight > 100)) {
+      throw new Error('目标权重需在 0 到 100% 之间')
+    }
+    if (new Set(targets.map((t) => t.key)).size !== targets.length) {
+      throw new Error('目标配置中存在重复项')
+    }
+    const total = targets.reduce((acc, t) => acc + t.weight, 0)
+    if (Math.abs(total - 100) > WEIGHT_TOLERANCE) {
+      throw new Error('目标权重合计需为 100%')
+    }
+    if (!(allocation.driftThreshold > 0)) {
+      throw new Error('偏离阈值必须大于 0')
+    }
+    if (!(allocation.minTradeAmount >= 0)) {
+      throw new Error('最小交易金额不能为负数')
+    }
+    return {
+      mode: allocation.mode,
+      targets,
+      driftThreshold: allocation.driftThreshold,
+      minTradeAmount: allocation.minTradeAmount,
+      alertEnabled: allocation.alertEnabled
+    }
+  }
+
+  private save(list: Portfolio[], activeId: string): PortfolioState {
+    getStorageService().savePortfolios({ list, activeId })
+    return { portfolios: list, activeId }
+  }
+}
+
+// 单例实例
+let portfolioServiceInstance: PortfolioService | null = null
+
+/**
+ * 获取组合服务单例
+ */
+export function getPortfolioService(): PortfolioService {
+  if (!portfolioServiceInstance) {
+    portfolioServiceInstance = new PortfolioService()
+  }
+  return portfolioServiceInstance
+}
+
+/**
+ * 重置组合服务（用于测试）
+ */
+export function resetPortfolioService(): void {
+  portfolioServiceInstance = null
+}
@@ -0,0 +1,72 @@
+import { ALL_PORTFOLIOS } from '@shared/types'
+import type { DailyProfitRecord, Fund, ProfitCalendar } from '@shared/types'
+import { profitCalculator } from '../calculator/profit-calculator'
+import { getStorageService } from './storage-service'
+
+/**
+ * 每日收益跟踪服务
+ * 在真实净值公布后记录当天的收益快照，并生成收益日历
+ */
+export class ProfitTracker {
+  /**
+   * 记录交易日的收益快照
+   * 净值分批公布时会多次调用：已记录的基金保留首次记录（之后的份额可能已计入当晚确认的申购），
+   * 只补充新公布净值的基金
+   * @param funds 已更新净值的基金列表
+   * @param date 交易日
+   */
+  recordDay(funds: Fund[], date: string): DailyProfitRecord | null {
+    const storage = getStorageService()
+    const existing = storage.getProfitHistory().find((r) => r.date === date)
+    const recorded = new Set(existing?.funds.map((f) => f.code))
+    const fresh = profitCalculator.buildDailyRecord(
+      funds.filter((f) => !recorded.has(f.code)),
+      date
+    )
+    if (!fresh) return existing ?? null
+
+    const record = existing ? profitCalculator.merge(existing, fresh) : fresh
+    try {
+      storage.saveProfitRecord(record)
+      console.log(`Recorded daily profit for ${date}: ${record.profit.toFixed(2)}`)
+    } catch (error) {
+      console.error(`Failed to record daily profit for ${date}:`, error)
+    }
+    return record
+  }
+
+  /**
+   * 获取收益日历
+   * @param year 年份
+   * @param portfolioId 组合标识，ALL_PORTFOLIOS 表示全部组合
+   */
+  getCalendar(year: number, portfolioId: string = ALL_PORTFOLIOS): ProfitCalendar {
+    let records = getStorageService().getProfitHistory()
+    if (portfolioId !== ALL_PORTFOLIOS) {
+      records = records
+        .map((r) => profitCalculator.forPortfolio(r, portfolioId))
+        .filter((r): r is DailyProfitRecord => r !== null)
+    }
+    return profitCalculator.summarize(records, year)
+  }
+}
+
+// 单例实例
+let trackerInstance: ProfitTracker | null = null
+
+/**
+ * 获取每日收益跟踪服务单例
+ */
+export function getProfitTracker(): ProfitTracker {
+  if (!trackerInstance) {
+    trackerInstance = new ProfitTracker()
+  }
+  return trackerInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetProfitTracker(): void {
+  trackerInstance = null
+}
@@ -0,0 +1,132 @@
+import type { RedemptionFeeSchedule, RedemptionFeeTier, SellQuote } from '@shared/types'
+import { redemptionCalculator } from '../calculator/redemption-calculator'
+import { fundFetcher } from '../fetchers/fund-fetcher'
+import { getMarketClock, getTradingCalendar } from '../calendar'
+import { round2 } from '../utils'
+import { getStorageService } from './storage-service'
+import { getLedgerService } from './ledger-service'
+
+/**
+ * 赎回费服务
+ * 维护每只基金的赎回费率表（数据源获取或手动录入），并按持仓批次测算赎回费
+ */
+export class RedemptionService {
+  /**
+   * 获取基金的赎回费率表
+   * 没有保存过时从数据源获取并缓存，数据源也没有时返回 null
+   */
+  async getSchedule(code: string): Promise<RedemptionFeeSchedule | null> {
+    const storage = getStorageService()
+    const saved = storage.getRedemptionFees(code)
+    if (saved) return saved
+
+    const tiers = await fundFetcher.fetchRedemptionFees(code)
+    if (tiers.length === 0) return null
+
+    const schedule: RedemptionFeeSchedule = {
+      tiers,
+      source: 'provider',
+      updatedAt: new Date().toISOString()
+    }
+    storage.saveRedemptionFees(code, schedule)
+    return schedule
+  }
+
+  /**
+   * 手动设置赎回费率表，传入 null 时清除并重新从数据源获取
+   * @throws 费率档位无效时抛出错误
+   */
+  async setSchedule(
+    code: string,
+    tiers: RedemptionFeeTier[] | null
+  ): Promise<RedemptionFeeSchedule | null> {
+    const storage = getStorageService()
+    if (!tiers) {
+      storage.saveRedemptionFees(code, null)
+      return this.getSchedule(code)
+    }
+
+    this.validate(tiers)
+    const schedule: RedemptionFeeSchedule = {
+      tiers: tiers.map((t) => ({ minDays: t.minDays, rate: t.rate })),
+      source: 'manual',
+      updatedAt: new Date().toISOString()
+    }
+    storage.saveRedemptionFees(code, schedule)
+    return schedule
+  }
+
+  /**
+   * 按今日估值测算组合中该基金各持仓批次的赎回费
+   * 降档日期顺延到交易日，即当天提交赎回即可按更低费率计算的首个 T 日
+   * @throws 没有可用净值时抛出错误
+   */
+  async quote(portfolioId: string, code: string): Promise<SellQuote> {
+    const ledger = getLedgerService().getLedger(portfolioId, code)
+    const netValue = ledger.fund ? ledger.fund.estimatedValue || ledger.fund.netValue : 0
+    if (!(netValue > 0)) {
+      throw new Error('暂无净值，无法测算赎回金额')
+    }
+
+    const schedule = await this.getSchedule(code)
+    const tradeDate = getMarketClock().orderTradeDate()
+    const calendar = getTradingCalendar()
+    const lots = redemptionCalculator
+      .quoteLots(ledger.position.lots, schedule?.tiers ?? [], netValue, tradeDate)
+      .map((lot) => ({
+        ...lot,
+        nextTierDate: lot.nextTierDate && calendar.addTradingDays(lot.nextTierDate, 0)
+      }))
+
+    return {
+      tradeDate,
+      netValue,
+      schedule,
+      lots,
+      shares: ledger.position.shares,
+      value: round2(lots.reduce((acc, l) => acc + l.value, 0)),
+      fee: round2(lots.reduce((acc, l) => acc + l.fee, 0)),
+      proceeds: round2(lots.reduce((acc, l) => acc + l.proceeds, 0))
+    }
+  }
+
+  /**
+   * 校验费率档位：第一档从 0 天开始，天数严格递增，费率在 0~100 之间
+   */
+  private validate(tiers: RedemptionFeeTier[]): void {
+    if (tiers.length === 0 || tiers[0].minDays !== 0) {
+      throw new Error('第一档费率必须从持有 0 天开始')
+    }
+    tiers.forEach((tier, index) => {
+      if (!Number.isInteger(tier.minDays) || tier.minDays < 0) {
+        throw new Error('持有天数必须为非负整数')
+      }
+      if (index > 0 && tier.minDays <= tiers[index - 1].minDays) {
+        throw new Error('持有天数必须逐档递增')
+      }
+      if (!(tier.rate >= 0 && tier.rate < 100)) {
+        throw new Error('赎回费率无效')
+      }
+    })
+  }
+}
+
+// 单例实例
+let redemptionServiceInstance: RedemptionService | null = null
+
+/**
+ * 获取赎回费服务单例
+ */
+export function getRedemptionService(): RedemptionService {
+  if (!redemptionServiceInstance) {
+    redemptionServiceInstance = new RedemptionService()
+  }
+  return redemptionServiceInstance
+}
+
+/**
+ * 重置服务（用于测试）
+ */
+export function resetRedemptionService(): void {
+  redemptionServiceInstance = null
+}
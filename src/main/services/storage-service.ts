@@ -1,10 +1,32 @@
 import Store from 'electron-store'
-import type { Fund } from '@shared/types'
+import type {
+  AlertRule,
+  AlertTrigger,
+  DailyProfitRecord,
+  EstimateRecord,
+  Fund,
+  IntradayPoint,
+  IntradaySeries,
+  InvestmentPlan,
+  PendingOrder,
+  RedemptionFeeSchedule,
+  Transaction
+} from '@shared/types'
+import { DEFAULT_PORTFOLIO_ID } from '@shared/types'
 import type { StorageSchema, StoredFund } from '@shared/types/storage'
 import type { IStorageService } from '../types'
 
 // Current storage version for migration handling
-const CURRENT_VERSION = 1
+const CURRENT_VERSION = 3
+
+// 每只基金最多保留的估值对照记录数（约一年的交易日）
+const MAX_ESTIMATE_RECORDS = 250
+
+// 最多保留的每日收益快照数（约十年的交易日）
+const MAX_PROFIT_RECORDS = 2500
+
+// 每只基金最多保留的分时估值交易日数
+const MAX_INTRADAY_DAYS = 5
 
 // Default storage schema values
 const DEFAULT_STORAGE: StorageSchema = {
@@ -12,8 +34,40 @@ const DEFAULT_STORAGE: StorageSchema = {
     funds: [],
     version: CURRENT_VERSION
   },
+  portfolios: {
+    list: [
+      {
+        id: DEFAULT_PORTFOLIO_ID,
+        name: '默认组合',
+        codes: [],
+        createdAt: new Date().toISOString()
+      }
+    ],
+    activeId: DEFAULT_PORTFOLIO_ID
+  },
+  groups: [],
+  estimateHistory: {},
+  intradaySeries: {},
+  transactions: {},
+  pendingOrders: {},
+  investmentPlans: [],
+  redemptionFees: {},
+  profitHistory: [],
+  alertRules: [],
+  alertHistory: [],
   settings: {
-    theme: 'light'
+    theme: 'light',
+    dataSource: {
+      providerId: 'default',
+      customSources: []
+    },
+    calibration: {
+      enabled: false,
+      windowDays: 30
+    },
+    ledger: {
+      costMethod: 'fifo'
+    }
   }
 }
 
@@ -43,8 +97,12 @@ export class StorageService implements IStorageService {
                 properties: {
                   code: { type: 'string' },
                   name: { type: 'string' },
+                  type: { type: 'string' },
                   netValue: { type: 'number' },
                   netValueDate: { type: 'string' },
+                  group: { type: 'string' },
+                  tags: { type: 'array', items: { type: 'string' } },
+                  benchmark: { type: 'string' },
                   holdings: {
                     type: 'array',
                     items: {
@@ -66,10 +124,309 @@ export class StorageService implements IStorageService {
           },
           required: ['funds', 'version']
         },
+        portfolios: {
+          type: 'object',
+          properties: {
+            list: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  codes: { type: 'array', items: { type: 'string' } },
+                  createdAt: { type: 'string' },
+                  allocation: {
+                    type: 'object',
+                    properties: {
+                      mode: { type: 'string', enum: ['fund', 'tag'] },
+                      targets: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            key: { type: 'string' },
+                            weight: { type: 'number' }
+                          },
+                          required: ['key', 'weight']
+                        }
+                      },
+                      driftThreshold: { type: 'number' },
+                      minTradeAmount: { type: 'number' },
+                      alertEnabled: { type: 'boolean' }
+                    },
+                    required: [
+                      'mode',
+                      'targets',
+                      'driftThreshold',
+                      'minTradeAmount',
+                      'alertEnabled'
+                    ]
+                  }
+                },
+                required: ['id', 'name', 'codes', 'createdAt']
+              }
+            },
+            activeId: { type: 'string' }
+          },
+          required: ['list', 'activeId']
+        },
+        groups: {
+          type: 'array',
+          items: { type: 'string' }
+        },
+        estimateHistory: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                date: { type: 'string' },
+                estimatedChange: { type: 'number' },
+                realChange: { type: 'number' }
+              },
+              required: ['date', 'estimatedChange', 'realChange']
+            }
+          }
+        },
+        intradaySeries: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                code: { type: 'string' },
+                date: { type: 'string' },
+                points: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      time: { type: 'string' },
+                      estimatedValue: { type: 'number' },
+                      estimatedChange: { type: 'number' }
+                    },
+                    required: ['time', 'estimatedValue', 'estimatedChange']
+                  }
+                }
+              },
+              required: ['code', 'date', 'points']
+            }
+          }
+        },
+        transactions: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                code: { type: 'string' },
+                portfolioId: { type: 'string' },
+                type: { type: 'string', enum: ['buy', 'sell', 'dividend', 'reinvest'] },
+                date: { type: 'string' },
+                amount: { type: 'number' },
+                shares: { type: 'number' },
+                netValue: { type: 'number' },
+                feeRate: { type: 'number' },
+                note: { type: 'string' },
+                planId: { type: 'string' },
+                createdAt: { type: 'string' }
+              },
+              required: ['id', 'code', 'type', 'date', 'createdAt']
+            }
+          }
+        },
+        pendingOrders: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                code: { type: 'string' },
+                portfolioId: { type: 'string' },
+                type: { type: 'string', enum: ['buy', 'sell'] },
+                amount: { type: 'number' },
+                shares: { type: 'number' },
+                feeRate: { type: 'number' },
+                orderTime: { type: 'string' },
+                tradeDate: { type: 'string' },
+                confirmDate: { type: 'string' },
+                note: { type: 'string' },
+                planId: { type: 'string' },
+                createdAt: { type: 'string' }
+              },
+              required: ['id', 'code', 'type', 'orderTime', 'tradeDate', 'confirmDate', 'createdAt']
+            }
+          }
+        },
+        redemptionFees: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              tiers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    minDays: { type: 'number' },
+                    rate: { type: 'number' }
+                  },
+                  required: ['minDays', 'rate']
+                }
+              },
+              source: { type: 'string', enum: ['provider', 'manual'] },
+              updatedAt: { type: 'string' }
+            },
+            required: ['tiers', 'source', 'updatedAt']
+          }
+        },
+        investmentPlans: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              code: { type: 'string' },
+              portfolioId: { type: 'string' },
+              amount: { type: 'number' },
+              feeRate: { type: 'number' },
+              frequency: { type: 'string', enum: ['weekly', 'biweekly', 'monthly'] },
+              weekday: { type: 'number' },
+              dayOfMonth: { type: 'number' },
+              startDate: { type: 'string' },
+              enabled: { type: 'boolean' },
+              executedThrough: { type: 'string' },
+              createdAt: { type: 'string' }
+            },
+            required: [
+              'id',
+              'code',
+              'portfolioId',
+              'amount',
+              'frequency',
+              'startDate',
+              'enabled',
+              'executedThrough',
+              'createdAt'
+            ]
+          }
+        },
+        profitHistory: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string' },
+              profit: { type: 'number' },
+              funds: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    code: { type: 'string' },
+                    shares: { type: 'number' },
+                    profit: { type: 'number' }
+                  },
+                  required: ['code', 'shares', 'profit']
+                }
+              }
+            },
+            required: ['date', 'profit', 'funds']
+          }
+        },
+        alertRules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              code: { type: ['string', 'null'] },
+              portfolioId: { type: 'string' },
+              metric: {
+                type: 'string',
+                enum: ['estimatedChange', 'estimatedValue', 'todayProfit', 'drawdown']
+              },
+              operator: { type: 'string', enum: ['above', 'below'] },
+              threshold: { type: 'number' },
+              cooldownMinutes: { type: 'number' },
+              oncePerDay: { type: 'boolean' },
+              enabled: { type: 'boolean' },
+              createdAt: { type: 'string' }
+            },
+            required: [
+              'id',
+              'code',
+              'portfolioId',
+              'metric',
+              'operator',
+              'threshold',
+              'cooldownMinutes',
+              'oncePerDay',
+              'enabled',
+              'createdAt'
+            ]
+          }
+        },
+        alertHistory: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ruleId: { type: 'string' },
+              date: { type: 'string' },
+              time: { type: 'string' },
+              value: { type: 'number' },
+              message: { type: 'string' }
+            },
+            required: ['ruleId', 'date', 'time', 'value', 'message']
+          }
+        },
         settings: {
           type: 'object',
           properties: {
-            theme: { type: 'string', enum: ['light', 'dark'] }
+            theme: { type: 'string', enum: ['light', 'dark'] },
+            dataSource: {
+              type: 'object',
+              properties: {
+                providerId: { type: 'string' },
+                customSources: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      name: { type: 'string' },
+                      baseUrl: { type: 'string' }
+                    },
+                    required: ['id', 'name', 'baseUrl']
+                  }
+                }
+              },
+              required: ['providerId', 'customSources']
+            },
+            calibration: {
+              type: 'object',
+              properties: {
+                enabled: { type: 'boolean' },
+                windowDays: { type: 'number', minimum: 1 }
+              },
+              required: ['enabled', 'windowDays']
+            },
+            ledger: {
+              type: 'object',
+              properties: {
+                costMethod: { type: 'string', enum: ['fifo', 'average'] }
+              },
+              required: ['costMethod']
+            }
           },
           required: ['theme']
         }
@@ -113,18 +470,227 @@ export class StorageService implements IStorageService {
     }
   }
 
+  /**
+   * 获取组合列表及当前查看的组合
+   */
+  getPortfolios(): StorageSchema['portfolios'] {
+    return this.store.get('portfolios') ?? DEFAULT_STORAGE.portfolios
+  }
+
+  /**
+   * 保存组合列表
+   */
+  savePortfolios(portfolios: StorageSchema['portfolios']): void {
+    this.store.set('portfolios', portfolios)
+  }
+
+  /**
+   * 获取自选基金分组
+   */
+  getGroups(): string[] {
+    return this.store.get('groups') ?? []
+  }
+
+  /**
+   * 保存自选基金分组
+   */
+  saveGroups(groups: string[]): void {
+    this.store.set('groups', groups)
+  }
+
+  /**
+   * 获取基金的估值对照记录（按日期升序）
+   */
+  getEstimateHistory(code: string): EstimateRecord[] {
+    const history = this.store.get('estimateHistory') ?? {}
+    return history[code] ?? []
+  }
+
+  /**
+   * 追加估值对照记录，同一交易日的记录会被覆盖
+   */
+  appendEstimateRecord(code: string, record: EstimateRecord): void {
+    const history = { ...(this.store.get('estimateHistory') ?? {}) }
+    const records = (history[code] ?? []).filter((r) => r.date !== record.date)
+    records.push(record)
+    records.sort((a, b) => a.date.localeCompare(b.date))
+    history[code] = records.slice(-MAX_ESTIMATE_RECORDS)
+    this.store.set('estimateHistory', history)
+  }
+
+  /**
+   * 获取每日收益快照（按日期升序）
+   */
+  getProfitHistory(): DailyProfitRecord[] {
+    return this.store.get('profitHistory') ?? []
+  }
+
+  /**
+   * 保存每日收益快照，同一交易日的快照会被覆盖
+   */
+  saveProfitRecord(record: DailyProfitRecord): void {
+    const records = this.getProfitHistory().filter((r) => r.date !== record.date)
+    records.push(record)
+    records.sort((a, b) => a.date.localeCompare(b.date))
+    this.store.set('profitHistory', records.slice(-MAX_PROFIT_RECORDS))
+  }
+
+  /**
+   * 获取基金的分时估值序列（按日期升序）
+   */
+  getIntradaySeries(code: string): IntradaySeries[] {
+    const series = this.store.get('intradaySeries') ?? {}
+    return series[code] ?? []
+  }
+
+  /**
+   * 批量追加同一时刻的分时估值点，同一分钟的数据点会被覆盖
+   * @param date 交易日
+   * @param points 按基金代码分组的数据点
+   */
+  appendIntradayPoints(date: string, points: Record<string, IntradayPoint>): void {
+    const all = { ...(this.store.get('intradaySeries') ?? {}) }
+
+    for (const [code, point] of Object.entries(points)) {
+      const days = (all[code] ?? []).filter((s) => s.date !== date)
+      const current = all[code]?.find((s) => s.date === date)
+      const dayPoints = (current?.points ?? []).filter((p) => p.time !== point.time)
+      dayPoints.push(point)
+      dayPoints.sort((a, b) => a.time.localeCompare(b.time))
+
+      days.push({ code, date, points: dayPoints })
+      days.sort((a, b) => a.date.localeCompare(b.date))
+      all[code] = days.slice(-MAX_INTRADAY_DAYS)
+    }
+
+    this.store.set('intradaySeries', all)
+  }
+
+  /**
+   * 获取基金的交易记录
+   */
+  getTransactions(code: string): Transaction[] {
+    const transactions = this.store.get('transactions') ?? {}
+    return transactions[code] ?? []
+  }
+
+  /**
+   * 保存基金的交易记录，空列表会移除该基金的记录
+   */
+  saveTransactions(code: string, list: Transaction[]): void {
+    const transactions = { ...(this.store.get('transactions') ?? {}) }
+    if (list.length > 0) {
+      transactions[code] = list
+    } else {
+      delete transactions[code]
+    }
+    this.store.set('transactions', transactions)
+  }
+
+  /**
+   * 获取基金的待确认申请
+   */
+  getPendingOrders(code: string): PendingOrder[] {
+    const orders = this.store.get('pendingOrders') ?? {}
+    return orders[code] ?? []
+  }
+
+  /**
+   * 获取所有基金的待确认申请
+   */
+  getAllPendingOrders(): Record<string, PendingOrder[]> {
+    return this.store.get('pendingOrders') ?? {}
+  }
+
+  /**
+   * 保存基金的待确认申请，空列表会移除该基金的记录
+   */
+  savePendingOrders(code: string, list: PendingOrder[]): void {
+    const orders = { ...(this.store.get('pendingOrders') ?? {}) }
+    if (list.length > 0) {
+      orders[code] = list
+    } else {
+      delete orders[code]
+    }
+    this.store.set('pendingOrders', orders)
+  }
+
+  /**
+   * 获取提醒规则
+   */
+  getAlertRules(): AlertRule[] {
+    return this.store.get('alertRules') ?? []
+  }
+
+  /**
+   * 保存提醒规则
+   */
+  saveAlertRules(rules: AlertRule[]): void {
+    this.store.set('alertRules', rules)
+  }
+
+  /**
+   * 获取提醒触发记录
+   */
+  getAlertHistory(): AlertTrigger[] {
+    return this.store.get('alertHistory') ?? []
+  }
+
+  /**
+   * 保存提醒触发记录
+   */
+  saveAlertHistory(history: AlertTrigger[]): void {
+    this.store.set('alertHistory', history)
+  }
+
+  /**
+   * 获取定投计划
+   */
+  getInvestmentPlans(): InvestmentPlan[] {
+    return this.store.get('investmentPlans') ?? []
+  }
+
+  /**
+   * 保存定投计划
+   */
+  saveInvestmentPlans(plans: InvestmentPlan[]): void {
+    this.store.set('investmentPlans', plans)
+  }
+
+  /**
+   * 获取基金的赎回费率表
+   */
+  getRedemptionFees(code: string): RedemptionFeeSchedule | undefined {
+    const fees = this.store.get('redemptionFees') ?? {}
+    return fees[code]
+  }
+
+  /**
+   * 保存基金的赎回费率表，传入 null 时移除
+   */
+  saveRedemptionFees(code: string, schedule: RedemptionFeeSchedule | null): void {
+    const fees = { ...(this.store.get('redemptionFees') ?? {}) }
+    if (schedule) {
+      fees[code] = schedule
+    } else {
+      delete fees[code]
+    }
+    this.store.set('redemptionFees', fees)
+  }
+
   /**
    * 获取设置
    */
   getSettings(): StorageSchema['settings'] {
-    return this.store.get('settings')
+    // 旧版本数据中可能缺少新增的设置项，用默认值补齐
+    return { ...DEFAULT_STORAGE.settings, ...this.store.get('settings') }
   }
 
   /**
    * 更新设置
    */
   updateSettings(settings: Partial<StorageSchema['settings']>): void {
-    const currentSettings = this.store.get('settings')
+    const currentSettings = this.getSettings()
     this.store.set('settings', { ...currentSettings, ...settings })
   }
 
@@ -162,9 +728,84 @@ export class StorageService implements IStorageService {
         })
       }
 
+      // Version 1 -> 2: 手动录入的份额和成本价转为期初申购记录，之后持仓由交易记录推算
+      if (currentVersion < 2) {
+        this.migrateSharesToTransactions()
+      }
+
+      // Version 2 -> 3: 引入多组合，已有基金和交易记录归入默认组合
+      if (currentVersion < 3) {
+        this.migrateToPortfolios()
+      }
+
       // Future migrations can be added here:
-      // if (currentVersion < 2) { ... }
+      // if (currentVersion < 4) { ... }
+    }
+  }
+
+  /**
+   * 把所有基金、交易记录和待确认申请归入默认组合，并记录各基金在默认组合中的持仓
+   */
+  private migrateToPortfolios(): void {
+    const funds = (this.store.get('watchlist')?.funds ?? []).map((fund) => ({
+      ...fund,
+      positions: fund.shares
+        ? { [DEFAULT_PORTFOLIO_ID]: { shares: fund.shares, costPrice: fund.costPrice } }
+        : undefined
+    }))
+
+    const withPortfolio = <T>(groups: Record<string, T[]>): Record<string, T[]> =>
+      Object.fromEntries(
+        Object.entries(groups).map(([code, list]) => [
+          code,
+          list.map((item) => ({ portfolioId: DEFAULT_PORTFOLIO_ID, ...item }))
+        ])
+      )
+
+    this.store.set('transactions', withPortfolio(this.store.get('transactions') ?? {}))
+    this.store.set('pendingOrders', withPortfolio(this.store.get('pendingOrders') ?? {}))
+
+    const portfolios = this.getPortfolios()
+    const [first, ...rest] = portfolios.list
+    this.store.set('portfolios', {
+      ...portfolios,
+      list: [{ ...first, codes: funds.map((f) => f.code) }, ...rest]
+    })
+    this.store.set('watchlist', { funds, version: 3 })
+  }
+
+  /**
+   * 为已设置份额但没有交易记录的基金生成一笔期初申购
+   * 确认净值取成本价（未设置时取最新净值），手续费率为 0，使推算结果与原份额和成本一致
+   */
+  private migrateSharesToTransactions(): void {
+    const funds = this.store.get('watchlist')?.funds ?? []
+    const transactions = { ...(this.store.get('transactions') ?? {}) }
+
+    for (const fund of funds) {
+      if (!fund.shares || fund.shares <= 0 || transactions[fund.code]?.length) continue
+
+      const netValue = fund.costPrice && fund.costPrice > 0 ? fund.costPrice : fund.netValue
+      const date = (fund.addedAt || fund.netValueDate).slice(0, 10)
+      transactions[fund.code] = [
+        {
+          id: `opening-${fund.code}`,
+          code: fund.code,
+          portfolioId: DEFAULT_PORTFOLIO_ID,
+          type: 'buy',
+          date,
+          amount: Math.round(fund.shares * netValue * 100) / 100,
+          shares: fund.shares,
+          netValue,
+          feeRate: 0,
+          note: '期初持仓',
+          createdAt: new Date().toISOString()
+        }
+      ]
     }
+
+    this.store.set('transactions', transactions)
+    this.store.set('watchlist', { funds, version: 2 })
   }
 
   /**
@@ -174,6 +815,7 @@ export class StorageService implements IStorageService {
     return {
       code: stored.code,
       name: stored.name,
+      type: stored.type,
       netValue: stored.netValue,
       netValueDate: stored.netValueDate,
       estimatedValue: stored.estimatedValue ?? stored.netValue,
@@ -181,6 +823,16 @@ export class StorageService implements IStorageService {
       updateTime: stored.updateTime ?? stored.addedAt,
       isRealValue: stored.isRealValue ?? false,
       shares: stored.shares ?? 0,
+      costPrice: stored.costPrice,
+      positions: stored.positions,
+      group: stored.group,
+      tags: stored.tags ?? [],
+      benchmark: stored.benchmark,
+      upstreamValuation: stored.upstreamValuation,
+      selfValuation: stored.selfValuation,
+      calibratedValuation: stored.calibratedValuation,
+      calibration: stored.calibration,
+      estimateSource: stored.estimateSource ?? 'upstream',
       holdings: stored.holdings.map((h) => ({
         stockCode: h.stockCode,
         stockName: h.stockName,
@@ -198,6 +850,7 @@ export class StorageService implements IStorageService {
     return {
       code: fund.code,
       name: fund.name,
+      type: fund.type,
       netValue: fund.netValue,
       netValueDate: fund.netValueDate,
       estimatedValue: fund.estimatedValue,
@@ -205,6 +858,16 @@ export class StorageService implements IStorageService {
       updateTime: fund.updateTime,
       isRealValue: fund.isRealValue,
       shares: fund.shares,
+      costPrice: fund.costPrice,
+      positions: fund.positions,
+      group: fund.group || undefined,
+      tags: fund.tags?.length ? fund.tags : undefined,
+      benchmark: fund.benchmark || undefined,
+      upstreamValuation: fund.upstreamValuation,
+      selfValuation: fund.selfValuation,
+      calibratedValuation: fund.calibratedValuation,
+      calibration: fund.calibration,
+      estimateSource: fund.estimateSource,
       holdings: fund.holdings.map((h) => ({
         stockCode: h.stockCode,
         stockName: h.stockName,
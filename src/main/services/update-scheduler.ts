@@ -1,4 +1,8 @@
+import type { Fund } from '@shared/types'
 import { getIPCHandler } from './ipc-handler'
+import { getIntradayRecorder } from './intraday-recorder'
+import { getAlertService } from './alert-service'
+import { getMarketClock } from '../calendar'
 
 /**
  * 更新调度器配置
@@ -138,6 +142,9 @@ export class UpdateScheduler {
     try {
       const updatedFunds = await ipcHandler.updateAllValuations()
 
+      // 记录分时估值
+      getIntradayRecorder().record(updatedFunds)
+
       // 更新成功，重置错误计数
       this.status.lastUpdateTime = new Date().toISOString()
       this.status.lastError = null
@@ -147,11 +154,28 @@ export class UpdateScheduler {
       ipcHandler.sendValuationUpdate(updatedFunds)
 
       console.log(`Valuation update successful, updated ${updatedFunds.length} funds`)
+
+      // 检查提醒规则
+      await this.checkAlerts(updatedFunds)
     } catch (error) {
       this.handleUpdateError(error)
     }
   }
 
+  /**
+   * 按最新估值检查提醒规则，检查失败不影响估值更新
+   */
+  private async checkAlerts(funds: Fund[]): Promise<void> {
+    try {
+      const triggers = await getAlertService().evaluate(funds)
+      if (triggers.length > 0) {
+        console.log(`Triggered ${triggers.length} alerts`)
+      }
+    } catch (error) {
+      console.error('Failed to evaluate alert rules:', error)
+    }
+  }
+
   /**
    * 处理更新错误
    */
@@ -182,33 +206,10 @@ export class UpdateScheduler {
 
   /**
    * 检查是否在交易时间内
-   * 交易时间: 周一至周五 9:30-11:30, 13:00-15:00（不含节假日）
-   * 注意：节假日无法准确判断，但不影响功能，只是会有无效请求
+   * 交易时间: 交易日 9:30-11:30, 13:00-15:00（北京时间），节假日按交易日历休市
    */
   isMarketOpen(): boolean {
-    const now = new Date()
-    const day = now.getDay()
-    const hours = now.getHours()
-    const minutes = now.getMinutes()
-    const time = hours * 60 + minutes
-
-    // 周末不开市
-    if (day === 0 || day === 6) {
-      return false
-    }
-
-    // 上午交易时间: 9:30 - 11:30
-    const morningStart = 9 * 60 + 30
-    const morningEnd = 11 * 60 + 30
-
-    // 下午交易时间: 13:00 - 15:00
-    const afternoonStart = 13 * 60
-    const afternoonEnd = 15 * 60
-
-    return (
-      (time >= morningStart && time <= morningEnd) ||
-      (time >= afternoonStart && time <= afternoonEnd)
-    )
+    return getMarketClock().isSessionOpen()
   }
 
   /**
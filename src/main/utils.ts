@@ -0,0 +1,35 @@
+/**
+ * 主进程通用工具函数
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 保留两位小数（基金份额和金额的通用精度）
+ */
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * 两个日期 (YYYY-MM-DD) 之间的自然日数
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+/**
+ * 日期加减自然日（按 UTC 运算避免时区偏移）
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * 生成记录标识（时间戳加随机后缀）
+ */
+export function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
@@ -3,3 +3,17 @@ export { default as FundList } from './FundList.vue'
 export { default as FundDetail } from './FundDetail.vue'
 export { default as StatusBar } from './StatusBar.vue'
 export { default as UpdateNotification } from './UpdateNotification.vue'
+export { default as DataSourceSelect } from './DataSourceSelect.vue'
+export { default as IntradayChart } from './IntradayChart.vue'
+export { default as TransactionPanel } from './TransactionPanel.vue'
+export { default as PortfolioSwitcher } from './PortfolioSwitcher.vue'
+export { default as ProfitCalendar } from './ProfitCalendar.vue'
+export { default as ExposurePanel } from './ExposurePanel.vue'
+export { default as StockLookup } from './StockLookup.vue'
+export { default as ContributionPanel } from './ContributionPanel.vue'
+export { default as FundCompare } from './FundCompare.vue'
+export { default as InvestmentPlanPanel } from './InvestmentPlanPanel.vue'
+export { default as BacktestPanel } from './BacktestPanel.vue'
+export { default as RebalancePanel } from './RebalancePanel.vue'
+export { default as SellCalculatorPanel } from './SellCalculatorPanel.vue'
+export { default as AlertPanel } from './AlertPanel.vue'
@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { setActivePinia, createPinia } from 'pinia'
-import { useWatchlistStore } from '../watchlist'
+import {
+  calculateContribution,
+  calculateExposure,
+  calculateRebalance,
+  findStockHolders,
+  groupFunds,
+  useWatchlistStore
+} from '../watchlist'
+import { ALL_PORTFOLIOS } from '@shared/types'
 import type { Fund, Valuation } from '@shared/types'
 
 // 创建测试用的基金数据
@@ -130,6 +138,345 @@ describe('watchlist store', () => {
       // Original should be unchanged
       expect(store.funds[0].code).toBe('000001')
     })
+
+    it('totalHolding should sum funds with shares and cost price', () => {
+      const store = useWatchlistStore()
+      store.addFund({ ...createTestFund('000001'), shares: 1000, costPrice: 1.2 })
+      store.addFund({ ...createTestFund('000002'), shares: 500, costPrice: 2 })
+      store.addFund({ ...createTestFund('000003'), shares: 800 })
+
+      const total = store.totalHolding!
+
+      expect(total.holdingValue).toBeCloseTo(1500 + 750)
+      expect(total.cost).toBeCloseTo(1200 + 1000)
+      expect(total.profit).toBeCloseTo(50)
+      expect(total.returnRate).toBeCloseTo((50 / 2200) * 100)
+    })
+
+    it('totalHolding should be null without cost data', () => {
+      const store = useWatchlistStore()
+      store.addFund({ ...createTestFund('000001'), shares: 1000 })
+
+      expect(store.totalHolding).toBeNull()
+    })
+  })
+
+  describe('portfolios', () => {
+    function setupTwoPortfolios() {
+      const store = useWatchlistStore()
+      store.setFunds([
+        {
+          ...createTestFund('000001'),
+          shares: 1500,
+          costPrice: 1.2,
+          positions: { a: { shares: 1000, costPrice: 1 }, b: { shares: 500, costPrice: 1.6 } }
+        },
+        {
+          ...createTestFund('000002'),
+          shares: 200,
+          costPrice: 1,
+          positions: { b: { shares: 200, costPrice: 1 } }
+        }
+      ])
+      store.setPortfolios({
+        portfolios: [
+          { id: 'a', name: '账户A', codes: ['000001'], createdAt: '' },
+          { id: 'b', name: '账户B', codes: ['000001', '000002'], createdAt: '' }
+        ],
+        activeId: 'a'
+      })
+      return store
+    }
+
+    it('visibleFunds should use the active portfolio positions', () => {
+      const store = setupTwoPortfolios()
+
+      expect(store.visibleFunds).toHaveLength(1)
+      expect(store.visibleFunds[0].shares).toBe(1000)
+      expect(store.portfolioHolding!.cost).toBeCloseTo(1000)
+      expect(store.portfolioHolding!.holdingValue).toBeCloseTo(1500)
+    })
+
+    it('should keep combined totals across portfolios', () => {
+      const store = setupTwoPortfolios()
+
+      expect(store.totalHolding!.cost).toBeCloseTo(1800 + 200)
+      store.setPortfolios({ portfolios: store.portfolios, activeId: ALL_PORTFOLIOS })
+      expect(store.visibleFunds).toHaveLength(2)
+      expect(store.portfolioHolding!.cost).toBeCloseTo(store.totalHolding!.cost)
+    })
+  })
+
+  describe('groups and tags', () => {
+    it('groupFunds should aggregate each group in order with ungrouped funds last', () => {
+      const funds = [
+        { ...createTestFund('000001', 2), group: '卫星', shares: 1000 },
+        { ...createTestFund('000002', 1), group: '核心' },
+        { ...createTestFund('000003', 3), group: '核心' },
+        createTestFund('000004', -1)
+      ]
+
+      const groups = groupFunds(funds, ['核心', '卫星', '债基'])
+
+      expect(groups.map((g) => g.name)).toEqual(['核心', '卫星', '债基', ''])
+      expect(groups[0].funds).toHaveLength(2)
+      expect(groups[0].estimatedChange).toBeCloseTo(2)
+      expect(groups[0].equalWeight).toBe(true)
+      expect(groups[0].estimatedProfit).toBeNull()
+      expect(groups[1].equalWeight).toBe(false)
+      expect(groups[1].estimatedProfit).toBeCloseTo(1000 * 1.5 - (1000 * 1.5) / 1.02)
+      expect(groups[2].estimatedChange).toBeNull()
+      expect(groups[3].funds[0].code).toBe('000004')
+    })
+
+    it('groupFunds should weight the group change by position value', () => {
+      const funds = [
+        { ...createTestFund('000001', 2), group: '核心', shares: 3000 },
+        { ...createTestFund('000002', -1), group: '核心', shares: 1000 },
+        { ...createTestFund('000003', 5), group: '核心' }
+      ]
+
+      const [group] = groupFunds(funds, ['核心'])
+      const base1 = (3000 * 1.5) / 1.02
+      const base2 = (1000 * 1.5) / 0.99
+
+      // 没有份额的基金按两只持仓基金的平均市值等权计入
+      const base3 = (base1 + base2) / 2
+      expect(group.equalWeight).toBe(false)
+      expect(group.equalWeightCount).toBe(1)
+      expect(group.estimatedChange).toBeCloseTo(
+        (base1 * 2 - base2 + base3 * 5) / (base1 + base2 + base3)
+      )
+    })
+
+    it('allTags should list distinct tags', () => {
+      const store = useWatchlistStore()
+      store.addFund({ ...createTestFund('000001'), tags: ['科技', '观察中'] })
+      store.addFund({ ...createTestFund('000002'), tags: ['宽基', '科技'] })
+
+      expect(store.allTags).toHaveLength(3)
+      expect(store.allTags).toEqual(expect.arrayContaining(['宽基', '科技', '观察中']))
+    })
+  })
+
+  describe('calculateExposure', () => {
+    const holding = (stockCode: string, ratio: number, change = 1) => ({
+      stockCode,
+      stockName: `股票${stockCode}`,
+      ratio,
+      change,
+      price: 10
+    })
+
+    it('should weight holdings by position value and merge the same stock', () => {
+      const summary = calculateExposure([
+        {
+          ...createTestFund('000001'),
+          estimatedValue: 2,
+          shares: 1000,
+          holdings: [holding('600519', 10), holding('000858', 5)]
+        },
+        {
+          ...createTestFund('000002'),
+          estimatedValue: 1,
+          shares: 2000,
+          holdings: [holding('600519', 8)]
+        },
+        { ...createTestFund('000003'), holdings: [holding('600519', 50)] }
+      ])
+
+      expect(summary.totalValue).toBeCloseTo(4000)
+      expect(summary.stocks[0].stockCode).toBe('600519')
+      expect(summary.stocks[0].value).toBeCloseTo(200 + 160)
+      expect(summary.stocks[0].weight).toBeCloseTo(9)
+      expect(summary.stocks[0].funds.map((f) => f.code)).toEqual(['000001', '000002'])
+      expect(summary.coverage).toBeCloseTo(((360 + 100) / 4000) * 100)
+    })
+
+    it('should be empty when no fund has shares', () => {
+      const summary = calculateExposure([createTestFund('000001')])
+
+      expect(summary.totalValue).toBe(0)
+      expect(summary.stocks).toHaveLength(0)
+    })
+  })
+
+  describe('calculateContribution', () => {
+    it('should weight funds by previous holding value', () => {
+      const result = calculateContribution([
+        {
+          ...createTestFund('000001', 10),
+          estimatedValue: 1.1,
+          shares: 3000,
+          holdings: [
+            { stockCode: '600519', stockName: '贵州茅台', ratio: 5, change: 2, price: 1700 }
+          ]
+        },
+        { ...createTestFund('000002', -10), estimatedValue: 0.9, shares: 1000 },
+        createTestFund('000003', 3)
+      ])
+
+      // 昨日市值 3000 和 1000，未持有的 000003 按平均市值 2000 等权计入
+      expect(result.equalWeight).toBe(false)
+      expect(result.equalWeightCount).toBe(1)
+      expect(result.change).toBeCloseTo(5 - 10 / 6 + 1)
+      expect(result.profit).toBeCloseTo(200)
+      expect(result.funds.map((f) => f.code)).toEqual(['000001', '000002', '000003'])
+      expect(result.funds[0].weight).toBeCloseTo(50)
+      expect(result.funds[0].contributionBp).toBeCloseTo(500)
+      expect(result.funds[0].equalWeight).toBe(false)
+      expect(result.funds[1].contributionBp).toBeCloseTo(-1000 / 6)
+      expect(result.funds[2]).toMatchObject({ equalWeight: true, profit: null })
+      expect(result.funds[2].contributionBp).toBeCloseTo(100)
+
+      const stock = result.funds[0].stocks[0]
+      expect(stock.contributionBp).toBeCloseTo(10)
+      expect(stock.profit).toBeCloseTo(3)
+      expect(result.funds[0].residualBp).toBeCloseTo(990)
+    })
+
+    it('should fall back to equal weight without any shares', () => {
+      const result = calculateContribution([
+        createTestFund('000001', 2),
+        createTestFund('000002', -1)
+      ])
+
+      expect(result.equalWeight).toBe(true)
+      expect(result.equalWeightCount).toBe(2)
+      expect(result.change).toBeCloseTo(0.5)
+      expect(result.profit).toBeNull()
+      expect(result.funds[0].contributionBp).toBeCloseTo(100)
+      expect(result.funds[0].profit).toBeNull()
+    })
+
+    it('should return null change for empty list', () => {
+      expect(calculateContribution([]).change).toBeNull()
+    })
+  })
+
+  describe('calculateRebalance', () => {
+    function held(code: string, shares: number, tags?: string[]): Fund {
+      return { ...createTestFund(code), estimatedValue: 1, shares, tags }
+    }
+
+    const rules = { driftThreshold: 5, minTradeAmount: 100, alertEnabled: false }
+
+    it('should compare tag weights and split trades by holding value', () => {
+      const result = calculateRebalance(
+        [
+          held('000001', 7000, ['股票']),
+          held('000002', 1000, ['股票']),
+          held('000003', 2000, ['债券'])
+        ],
+        {
+          ...rules,
+          mode: 'tag',
+          targets: [
+            { key: '股票', weight: 60 },
+            { key: '债券', weight: 40 }
+          ]
+        }
+      )!
+
+      expect(result.totalValue).toBe(10000)
+      expect(result.items.map((i) => i.drift)).toEqual([20, -20])
+      expect(result.needsRebalance).toBe(true)
+      expect(result.trades).toEqual([
+        { code: '000001', name: '测试基金000001', amount: -1750 },
+        { code: '000002', name: '测试基金000002', amount: -250 },
+        { code: '000003', name: '测试基金000003', amount: 2000 }
+      ])
+    })
+
+    it('should respect the drift threshold and minimum trade size', () => {
+      const funds = [
+        held('000001', 7000, ['股票']),
+        held('000002', 1000, ['股票']),
+        held('000003', 2000, ['债券'])
+      ]
+      const targets = [
+        { key: '股票', weight: 60 },
+        { key: '债券', weight: 40 }
+      ]
+
+      const calm = calculateRebalance(funds, {
+        ...rules,
+        mode: 'tag',
+        targets,
+        driftThreshold: 25
+      })!
+      expect(calm.needsRebalance).toBe(false)
+      expect(calm.trades).toEqual([])
+
+      const coarse = calculateRebalance(funds, {
+        ...rules,
+        mode: 'tag',
+        targets,
+        minTradeAmount: 300
+      })!
+      expect(coarse.trades.map((t) => t.code)).toEqual(['000001', '000003'])
+    })
+
+    it('should sell funds without a target and buy targets not yet held', () => {
+      const result = calculateRebalance(
+        [held('000001', 6000), held('000002', 4000), createTestFund('000003')],
+        {
+          ...rules,
+          mode: 'fund',
+          targets: [
+            { key: '000001', weight: 50 },
+            { key: '000004', weight: 50 }
+          ]
+        }
+      )!
+
+      expect(result.items.map((i) => i.key)).toEqual(['000001', '000004', ''])
+      expect(result.maxDrift).toBe(50)
+      expect(result.trades.map((t) => [t.code, t.amount])).toEqual([
+        ['000001', -1000],
+        ['000002', -4000],
+        ['000004', 5000]
+      ])
+    })
+
+    it('should return null without holding value', () => {
+      expect(
+        calculateRebalance([createTestFund('000001')], {
+          ...rules,
+          mode: 'fund',
+          targets: [{ key: '000001', weight: 100 }]
+        })
+      ).toBeNull()
+    })
+  })
+
+  describe('findStockHolders', () => {
+    const funds: Fund[] = [
+      {
+        ...createTestFund('000001', 1.2),
+        holdings: [{ stockCode: '600519', stockName: '贵州茅台', ratio: 5, change: 2, price: 1700 }]
+      },
+      {
+        ...createTestFund('000002', 0.8),
+        holdings: [
+          { stockCode: '000858', stockName: '五粮液', ratio: 6, change: -1, price: 150 },
+          { stockCode: '600519', stockName: '贵州茅台', ratio: 9, change: 2, price: 1700 }
+        ]
+      }
+    ]
+
+    it('should list funds holding the stock with implied contribution', () => {
+      const holders = findStockHolders(funds, '600519')
+
+      expect(holders.map((h) => h.code)).toEqual(['000002', '000001'])
+      expect(holders[0].contribution).toBeCloseTo(0.18)
+      expect(holders[0].fundChange).toBe(0.8)
+    })
+
+    it('should match stock names and ignore empty queries', () => {
+      expect(findStockHolders(funds, '茅台')).toHaveLength(2)
+      expect(findStockHolders(funds, '  ')).toHaveLength(0)
+    })
   })
 
   describe('updateFundValuation', () => {
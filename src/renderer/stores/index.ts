@@ -1,2 +1,8 @@
 // 导出所有 stores
-export { useWatchlistStore } from './watchlist'
+export {
+  useWatchlistStore,
+  calculateHolding,
+  calculateExposure,
+  calculateRebalance,
+  groupFunds
+} from './watchlist'
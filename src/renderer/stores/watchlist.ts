@@ -1,5 +1,345 @@
 import { defineStore } from 'pinia'
-import type { Fund, WatchlistState, Valuation } from '@shared/types'
+import { ALL_PORTFOLIOS, DEFAULT_PORTFOLIO_ID } from '@shared/types'
+import type {
+  AllocationItem,
+  AllocationSettings,
+  ContributionSummary,
+  ExposureSummary,
+  Fund,
+  FundContribution,
+  FundGroupSummary,
+  HoldingSummary,
+  PortfolioState,
+  RebalanceSummary,
+  RebalanceTrade,
+  StockContribution,
+  StockExposure,
+  StockHolder,
+  WatchlistState,
+  Valuation
+} from '@shared/types'
+
+/**
+ * 计算单只基金的持仓收益
+ * 市值按最新估值计算（公布真实净值后估值即为净值），未设置份额或成本价时返回 null
+ */
+export function calculateHolding(fund: Fund): HoldingSummary | null {
+  if (!fund.shares || fund.shares <= 0 || !fund.costPrice || fund.costPrice <= 0) return null
+
+  const price = fund.estimatedValue > 0 ? fund.estimatedValue : fund.netValue
+  if (!price || isNaN(price)) return null
+
+  const holdingValue = fund.shares * price
+  const cost = fund.shares * fund.costPrice
+  const profit = holdingValue - cost
+  return { holdingValue, cost, profit, returnRate: (profit / cost) * 100 }
+}
+
+/**
+ * 计算今日预估总盈利（根据份额和估值计算）
+ * 盈利 = 份额 × 估值 × 涨跌幅% / (1 + 涨跌幅%)
+ */
+export function sumEstimatedProfit(funds: Fund[]): number | null {
+  const fundsWithShares = funds.filter(
+    (f) =>
+      f.shares &&
+      f.shares > 0 &&
+      f.estimatedChange !== undefined &&
+      !isNaN(f.estimatedChange) &&
+      f.estimatedValue > 0
+  )
+  if (fundsWithShares.length === 0) return null
+  return fundsWithShares.reduce((acc, f) => {
+    const todayValue = f.shares! * f.estimatedValue
+    const yesterdayNetValue = f.estimatedValue / (1 + f.estimatedChange / 100)
+    const yesterdayValue = f.shares! * yesterdayNetValue
+    const profit = todayValue - yesterdayValue
+    return acc + profit
+  }, 0)
+}
+
+/**
+ * 汇总持仓收益（仅统计设置了份额和成本价的基金）
+ */
+export function sumHolding(funds: Fund[]): HoldingSummary | null {
+  const holdings = funds.map(calculateHolding).filter((h): h is HoldingSummary => h !== null)
+  if (holdings.length === 0) return null
+
+  const holdingValue = holdings.reduce((acc, h) => acc + h.holdingValue, 0)
+  const cost = holdings.reduce((acc, h) => acc + h.cost, 0)
+  const profit = holdingValue - cost
+  return { holdingValue, cost, profit, returnRate: (profit / cost) * 100 }
+}
+
+/**
+ * 按分组汇总基金
+ * 分组按给定顺序排列，未出现在分组列表中的分组名排在后面，未分组的基金放在最后
+ * 组内涨幅与总计一致按持仓市值加权，未持有份额的基金按等权重计入
+ */
+export function groupFunds(funds: Fund[], groups: string[]): FundGroupSummary[] {
+  const names = [...groups]
+  for (const fund of funds) {
+    if (fund.group && !names.includes(fund.group)) names.push(fund.group)
+  }
+  names.push('')
+
+  return names.map((name) => {
+    const members = funds.filter((f) => (f.group || '') === name)
+    const contribution = calculateContribution(members)
+    return {
+      name,
+      funds: members,
+      estimatedChange: contribution.change,
+      equalWeight: contribution.equalWeight,
+      equalWeightCount: contribution.equalWeightCount,
+      estimatedProfit: sumEstimatedProfit(members)
+    }
+  })
+}
+
+/**
+ * 计算股票穿透暴露
+ * 每只基金按持仓市值（份额 × 最新估值）加权其前十大持仓，再按股票汇总；未持有份额的基金不计入
+ */
+export function calculateExposure(funds: Fund[]): ExposureSummary {
+  const stocks = new Map<string, StockExposure>()
+  let totalValue = 0
+
+  for (const fund of funds) {
+    const price = fund.estimatedValue > 0 ? fund.estimatedValue : fund.netValue
+    if (!fund.shares || fund.shares <= 0 || !price || isNaN(price)) continue
+
+    const positionValue = fund.shares * price
+    totalValue += positionValue
+
+    for (const holding of fund.holdings) {
+      if (!(holding.ratio > 0)) continue
+
+      const value = (positionValue * holding.ratio) / 100
+      let exposure = stocks.get(holding.stockCode)
+      if (!exposure) {
+        exposure = {
+          stockCode: holding.stockCode,
+          stockName: holding.stockName,
+          value: 0,
+          weight: 0,
+          change: holding.change,
+          funds: []
+        }
+        stocks.set(holding.stockCode, exposure)
+      }
+      exposure.value += value
+      exposure.funds.push({ code: fund.code, name: fund.name, ratio: holding.ratio, value })
+    }
+  }
+
+  const list = [...stocks.values()]
+  for (const exposure of list) {
+    exposure.weight = totalValue > 0 ? (exposure.value / totalValue) * 100 : 0
+    exposure.funds.sort((a, b) => b.value - a.value)
+  }
+  list.sort((a, b) => b.value - a.value)
+
+  const coveredValue = list.reduce((acc, s) => acc + s.value, 0)
+  return {
+    totalValue,
+    coverage: totalValue > 0 ? (coveredValue / totalValue) * 100 : 0,
+    stocks: list
+  }
+}
+
+/**
+ * 股票反查：找出前十大持仓中包含该股票的基金
+ * @param query 股票代码（精确匹配）或名称（包含匹配）
+ * @returns 按持仓占比降序排列
+ */
+export function findStockHolders(funds: Fund[], query: string): StockHolder[] {
+  const keyword = query.trim()
+  if (!keyword) return []
+
+  const holders: StockHolder[] = []
+  for (const fund of funds) {
+    for (const holding of fund.holdings) {
+      if (holding.stockCode !== keyword && !holding.stockName.includes(keyword)) continue
+      const stockChange = holding.change ?? 0
+      holders.push({
+        code: fund.code,
+        name: fund.name,
+        stockCode: holding.stockCode,
+        stockName: holding.stockName,
+        ratio: holding.ratio,
+        stockChange,
+        contribution: (holding.ratio * stockChange) / 100,
+        fundChange: fund.estimatedChange
+      })
+    }
+  }
+  return holders.sort((a, b) => b.ratio - a.ratio)
+}
+
+/**
+ * 拆解前十大持仓对基金涨跌幅的贡献
+ * @param baseValue 基金昨日持仓市值（元），未持有时不计算盈亏
+ */
+export function calculateStockContributions(
+  fund: Fund,
+  baseValue: number | null = null
+): StockContribution[] {
+  return fund.holdings
+    .map((holding) => {
+      const change = holding.change ?? 0
+      return {
+        stockCode: holding.stockCode,
+        stockName: holding.stockName,
+        ratio: holding.ratio,
+        change,
+        contributionBp: holding.ratio * change,
+        profit: baseValue === null ? null : (baseValue * holding.ratio * change) / 10000
+      }
+    })
+    .sort((a, b) => Math.abs(b.contributionBp) - Math.abs(a.contributionBp))
+}
+
+/**
+ * 计算组合涨跌幅及各基金的贡献
+ * 按昨日持仓市值加权（只有持仓基金时，组合涨跌 = 今日总盈亏 / 昨日总市值）；
+ * 没有持仓份额的基金退回等权重，按持仓基金的平均市值计入且不计盈亏，
+ * 所有基金都没有持仓份额时即为等权重平均，两种情况分别通过基金和汇总的 equalWeight 标明
+ */
+export function calculateContribution(funds: Fund[]): ContributionSummary {
+  const valid = funds.filter(
+    (f) => f.estimatedChange !== undefined && !isNaN(f.estimatedChange) && f.estimatedValue > 0
+  )
+  const bases = valid.map((f) =>
+    f.shares && f.shares > 0 ? (f.shares * f.estimatedValue) / (1 + f.estimatedChange / 100) : null
+  )
+  const heldBases = bases.filter((b): b is number => b !== null)
+  const equalWeight = heldBases.length === 0
+  const fallbackBase = equalWeight ? 1 : heldBases.reduce((acc, b) => acc + b, 0) / heldBases.length
+  const totalBase = bases.reduce<number>((acc, b) => acc + (b ?? fallbackBase), 0)
+
+  const build = (fund: Fund, weight: number, baseValue: number | null): FundContribution => {
+    const stocks = calculateStockContributions(fund, baseValue)
+    const explainedBp = stocks.reduce((acc, s) => acc + s.contributionBp, 0)
+    return {
+      code: fund.code,
+      name: fund.name,
+      change: fund.estimatedChange,
+      weight: weight * 100,
+      contributionBp: weight * fund.estimatedChange * 100,
+      profit: baseValue === null ? null : (baseValue * fund.estimatedChange) / 100,
+      equalWeight: baseValue === null,
+      stocks,
+      residualBp: fund.estimatedChange * 100 - explainedBp
+    }
+  }
+
+  const items = valid.map((fund, i) =>
+    build(fund, (bases[i] ?? fallbackBase) / totalBase, bases[i])
+  )
+  const profit = equalWeight ? null : items.reduce((acc, f) => acc + (f.profit ?? 0), 0)
+
+  items.sort((a, b) => Math.abs(b.contributionBp) - Math.abs(a.contributionBp))
+  return {
+    change: items.length > 0 ? items.reduce((acc, f) => acc + f.contributionBp, 0) / 100 : null,
+    profit,
+    equalWeight,
+    equalWeightCount: valid.length - heldBases.length,
+    funds: items
+  }
+}
+
+/**
+ * 按持仓市值分配一个配置项的调整金额
+ * 没有持仓市值时在该项的基金间平分，低于最小交易金额的部分不提示
+ */
+function splitTrade(members: Fund[], values: number[], amount: number, minTrade: number) {
+  const total = values.reduce((acc, v) => acc + v, 0)
+  return members
+    .map((f, i) => ({
+      code: f.code,
+      name: f.name,
+      amount:
+        Math.round((total > 0 ? (amount * values[i]) / total : amount / members.length) * 100) / 100
+    }))
+    .filter((t) => t.amount !== 0 && Math.abs(t.amount) >= minTrade)
+}
+
+/**
+ * 计算配置偏离及再平衡建议
+ * 当前市值 = 份额 × 最新估值；按标签配置时，基金归入第一个设置了目标的标签；
+ * 有持仓但没有对应目标的基金目标权重视为 0。任一项偏离超过阈值时，给出把各项调回目标权重的交易
+ * @returns 没有持仓市值时返回 null
+ */
+export function calculateRebalance(
+  funds: Fund[],
+  allocation: AllocationSettings
+): RebalanceSummary | null {
+  const valueOf = (f: Fund) => {
+    const price = f.estimatedValue > 0 ? f.estimatedValue : f.netValue
+    return f.shares && f.shares > 0 && price > 0 ? f.shares * price : 0
+  }
+
+  const keyOf = (f: Fund): string | undefined =>
+    allocation.mode === 'fund'
+      ? allocation.targets.find((t) => t.key === f.code)?.key
+      : allocation.targets.find((t) => f.tags?.includes(t.key))?.key
+
+  const buckets = allocation.targets.map((t) => ({
+    key: t.key,
+    label:
+      allocation.mode === 'fund' ? (funds.find((f) => f.code === t.key)?.name ?? t.key) : t.key,
+    targetWeight: t.weight,
+    members: funds.filter((f) => keyOf(f) === t.key)
+  }))
+  const unassigned = funds.filter((f) => keyOf(f) === undefined && valueOf(f) > 0)
+  if (unassigned.length > 0) {
+    buckets.push({ key: '', label: '未设置目标', targetWeight: 0, members: unassigned })
+  }
+
+  const totalValue = funds.reduce((acc, f) => acc + valueOf(f), 0)
+  if (totalValue <= 0) return null
+
+  const items: AllocationItem[] = buckets.map((b) => {
+    const value = b.members.reduce((acc, f) => acc + valueOf(f), 0)
+    const currentWeight = (value / totalValue) * 100
+    return {
+      key: b.key,
+      label: b.label,
+      value,
+      currentWeight,
+      targetWeight: b.targetWeight,
+      drift: currentWeight - b.targetWeight,
+      trades: []
+    }
+  })
+
+  const maxDrift = Math.max(...items.map((i) => Math.abs(i.drift)))
+  const needsRebalance = maxDrift > allocation.driftThreshold
+
+  if (needsRebalance) {
+    items.forEach((item, index) => {
+      const gap = (item.targetWeight / 100) * totalValue - item.value
+      if (Math.abs(gap) < allocation.minTradeAmount) return
+      const { members } = buckets[index]
+      if (members.length > 0) {
+        item.trades = splitTrade(members, members.map(valueOf), gap, allocation.minTradeAmount)
+      } else if (allocation.mode === 'fund') {
+        // 目标基金尚未加入组合
+        item.trades = [{ code: item.key, name: item.label, amount: Math.round(gap * 100) / 100 }]
+      }
+    })
+  }
+
+  const trades: RebalanceTrade[] = items.flatMap((i) => i.trades)
+  return {
+    totalValue,
+    maxDrift,
+    needsRebalance,
+    items,
+    trades: [...trades.filter((t) => t.amount < 0), ...trades.filter((t) => t.amount > 0)]
+  }
+}
 
 /**
  * 自选列表 Store
@@ -13,6 +353,9 @@ import type { Fund, WatchlistState, Valuation } from '@shared/types'
 export const useWatchlistStore = defineStore('watchlist', {
   state: (): WatchlistState => ({
     funds: [],
+    portfolios: [],
+    activePortfolioId: DEFAULT_PORTFOLIO_ID,
+    groups: [],
     loading: false,
     error: null,
     lastUpdateTime: null
@@ -48,38 +391,82 @@ export const useWatchlistStore = defineStore('watchlist', {
       [...state.funds].sort((a, b) => b.estimatedChange - a.estimatedChange),
 
     /**
-     * 总仓位估值涨幅（等权重平均）
-     */
-    totalEstimatedChange: (state): number | null => {
-      const validFunds = state.funds.filter(
-        (f) => f.estimatedChange !== undefined && !isNaN(f.estimatedChange)
-      )
-      if (validFunds.length === 0) return null
-      const sum = validFunds.reduce((acc, f) => acc + f.estimatedChange, 0)
-      return sum / validFunds.length
-    },
-
-    /**
-     * 今日预估总盈利（根据份额和估值计算）
-     * 盈利 = 份额 × 估值 × 涨跌幅% / (1 + 涨跌幅%)
-     */
-    totalEstimatedProfit: (state): number | null => {
-      const fundsWithShares = state.funds.filter(
-        (f) =>
-          f.shares &&
-          f.shares > 0 &&
-          f.estimatedChange !== undefined &&
-          !isNaN(f.estimatedChange) &&
-          f.estimatedValue > 0
-      )
-      if (fundsWithShares.length === 0) return null
-      return fundsWithShares.reduce((acc, f) => {
-        const todayValue = f.shares! * f.estimatedValue
-        const yesterdayNetValue = f.estimatedValue / (1 + f.estimatedChange / 100)
-        const yesterdayValue = f.shares! * yesterdayNetValue
-        const profit = todayValue - yesterdayValue
-        return acc + profit
-      }, 0)
+     * 总仓位估值涨幅（按持仓市值加权，没有持仓份额时为等权重平均）
+     */
+    totalEstimatedChange: (state): number | null => calculateContribution(state.funds).change,
+
+    /**
+     * 今日预估总盈利（全部组合合计）
+     */
+    totalEstimatedProfit: (state): number | null => sumEstimatedProfit(state.funds),
+
+    /**
+     * 持仓收益汇总（全部组合合计）
+     */
+    totalHolding: (state): HoldingSummary | null => sumHolding(state.funds),
+
+    /**
+     * 当前查看的组合，查看全部组合时为 undefined
+     */
+    activePortfolio: (state) => state.portfolios.find((p) => p.id === state.activePortfolioId),
+
+    /**
+     * 当前组合中的基金，份额和成本价换成该组合自己的持仓
+     * 查看全部组合时返回全部基金（份额为各组合合计）
+     */
+    visibleFunds(state): Fund[] {
+      if (state.activePortfolioId === ALL_PORTFOLIOS) return state.funds
+      const portfolio = state.portfolios.find((p) => p.id === state.activePortfolioId)
+      if (!portfolio) return state.funds
+
+      return state.funds
+        .filter((f) => portfolio.codes.includes(f.code))
+        .map((f) => {
+          const position = f.positions?.[portfolio.id]
+          return { ...f, shares: position?.shares, costPrice: position?.costPrice }
+        })
+    },
+
+    /**
+     * 自选基金用到的全部标签（按名称排序）
+     */
+    allTags: (state): string[] =>
+      [...new Set(state.funds.flatMap((f) => f.tags ?? []))].sort((a, b) => a.localeCompare(b)),
+
+    /**
+     * 当前组合的涨跌幅及各基金贡献
+     */
+    portfolioContribution(): ContributionSummary {
+      return calculateContribution(this.visibleFunds)
+    },
+
+    /**
+     * 当前组合的股票穿透暴露
+     */
+    stockExposure(): ExposureSummary {
+      return calculateExposure(this.visibleFunds)
+    },
+
+    /**
+     * 当前组合的今日预估盈利
+     */
+    portfolioEstimatedProfit(): number | null {
+      return sumEstimatedProfit(this.visibleFunds)
+    },
+
+    /**
+     * 当前组合的持仓收益汇总
+     */
+    portfolioHolding(): HoldingSummary | null {
+      return sumHolding(this.visibleFunds)
+    },
+
+    /**
+     * 当前组合的配置偏离及再平衡建议，未设置目标配置或查看全部组合时为 null
+     */
+    rebalanceSummary(): RebalanceSummary | null {
+      const allocation = this.activePortfolio?.allocation
+      return allocation ? calculateRebalance(this.visibleFunds, allocation) : null
     }
   },
 
@@ -175,6 +562,23 @@ export const useWatchlistStore = defineStore('watchlist', {
       this.lastUpdateTime = latestTime || null
     },
 
+    /**
+     * 设置组合列表及当前查看的组合
+     *
+     * @param state 主进程返回的组合状态
+     */
+    setPortfolios(state: PortfolioState): void {
+      this.portfolios = state.portfolios
+      this.activePortfolioId = state.activeId
+    },
+
+    /**
+     * 设置分组列表
+     */
+    setGroups(groups: string[]): void {
+      this.groups = groups
+    },
+
     /**
      * 按涨跌幅排序（原地排序）
      * Requirement 3.6: 支持按涨跌幅排序自选列表
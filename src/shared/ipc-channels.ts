@@ -16,11 +16,79 @@ export const IPC_CHANNELS = {
   WATCHLIST_GET: 'watchlist:get',
   WATCHLIST_SAVE: 'watchlist:save',
   WATCHLIST_CLEAR: 'watchlist:clear',
-  WATCHLIST_UPDATE_SHARES: 'watchlist:updateShares',
+
+  // 分组和标签
+  GROUP_LIST: 'group:list',
+  GROUP_CREATE: 'group:create',
+  GROUP_RENAME: 'group:rename',
+  GROUP_REMOVE: 'group:remove',
+  FUND_UPDATE_TAGS: 'fund:updateTags',
+
+  // 收益日历
+  PROFIT_CALENDAR: 'profit:calendar',
+
+  // 组合
+  PORTFOLIO_LIST: 'portfolio:list',
+  PORTFOLIO_CREATE: 'portfolio:create',
+  PORTFOLIO_RENAME: 'portfolio:rename',
+  PORTFOLIO_REMOVE: 'portfolio:remove',
+  PORTFOLIO_SWITCH: 'portfolio:switch',
+  PORTFOLIO_SET_ALLOCATION: 'portfolio:setAllocation',
+
+  // 交易记录
+  TRANSACTION_LIST: 'transaction:list',
+  TRANSACTION_ADD: 'transaction:add',
+  TRANSACTION_REMOVE: 'transaction:remove',
+  PENDING_ORDER_ADD: 'transaction:addPending',
+  PENDING_ORDER_CANCEL: 'transaction:cancelPending',
+
+  // 定投计划
+  PLAN_LIST: 'plan:list',
+  PLAN_CREATE: 'plan:create',
+  PLAN_UPDATE: 'plan:update',
+  PLAN_REMOVE: 'plan:remove',
+
+  // 提醒规则
+  ALERT_LIST: 'alert:list',
+  ALERT_CREATE: 'alert:create',
+  ALERT_UPDATE: 'alert:update',
+  ALERT_REMOVE: 'alert:remove',
+  ALERT_HISTORY: 'alert:history',
+
+  // 赎回费测算
+  FUND_SELL_QUOTE: 'fund:sellQuote',
+  FUND_SET_REDEMPTION_FEES: 'fund:setRedemptionFees',
 
   // 历史净值
   NET_VALUE_HISTORY: 'fund:netValueHistory',
 
+  // 风险收益指标
+  FUND_PERFORMANCE: 'fund:performance',
+  FUND_COMPARE: 'fund:compare',
+
+  // 策略回测
+  FUND_BACKTEST: 'fund:backtest',
+
+  // 比较基准
+  FUND_BENCHMARK: 'fund:benchmark',
+  FUND_SET_BENCHMARK: 'fund:setBenchmark',
+
+  // 估值准确度
+  ESTIMATE_ACCURACY: 'fund:estimateAccuracy',
+
+  // 分时估值
+  INTRADAY_SERIES: 'fund:intradaySeries',
+
+  // 数据源
+  DATA_SOURCE_LIST: 'dataSource:list',
+  DATA_SOURCE_SET: 'dataSource:set',
+  DATA_SOURCE_ADD: 'dataSource:add',
+  DATA_SOURCE_REMOVE: 'dataSource:remove',
+
+  // 设置
+  SETTINGS_GET: 'settings:get',
+  SETTINGS_UPDATE: 'settings:update',
+
   // 应用更新
   UPDATE_CHECK: 'update:check',
   UPDATE_DOWNLOAD: 'update:download',
@@ -0,0 +1,42 @@
+/**
+ * 提醒指标：估算涨跌幅 / 估算净值 / 今日预估收益 / 较近一年最高净值的回撤
+ */
+export type AlertMetric = 'estimatedChange' | 'estimatedValue' | 'todayProfit' | 'drawdown'
+
+/**
+ * 穿越方向：指标由低于阈值上穿到 ≥ 阈值 / 由高于阈值下穿到 ≤ 阈值
+ */
+export type AlertOperator = 'above' | 'below'
+
+/**
+ * 新建或修改提醒规则时提交的内容
+ */
+export interface AlertRuleInput {
+  code: string | null // 基金代码，null 表示整个组合
+  portfolioId: string // 计算收益所用的组合，ALL_PORTFOLIOS 表示全部组合
+  metric: AlertMetric // 提醒指标
+  operator: AlertOperator // 穿越方向
+  threshold: number // 阈值（涨跌幅、回撤为百分比，收益为元）
+  cooldownMinutes: number // 再次提醒的最短间隔（分钟）
+  oncePerDay: boolean // 每个交易日最多提醒一次
+  enabled: boolean // 是否启用
+}
+
+/**
+ * 提醒规则
+ */
+export interface AlertRule extends AlertRuleInput {
+  id: string // 规则标识
+  createdAt: string // 创建时间 (ISO 字符串)
+}
+
+/**
+ * 提醒触发记录
+ */
+export interface AlertTrigger {
+  ruleId: string // 触发的规则
+  date: string // 触发日期 (YYYY-MM-DD，北京时间)
+  time: string // 触发时间 (ISO 字符串)
+  value: number // 触发时的指标值
+  message: string // 通知内容
+}
@@ -0,0 +1,163 @@
+/**
+ * 业绩分析相关类型定义
+ */
+
+import type { PlanFrequency } from './transaction'
+
+/**
+ * 历史净值时间范围
+ */
+export type HistoryRange = '1m' | '3m' | '6m' | '1y' | '3y' | 'all'
+
+/**
+ * 历史净值时间范围选项
+ */
+export const HISTORY_RANGE_OPTIONS: { label: string; value: HistoryRange }[] = [
+  { label: '近1月', value: '1m' },
+  { label: '近3月', value: '3m' },
+  { label: '近6月', value: '6m' },
+  { label: '近1年', value: '1y' },
+  { label: '近3年', value: '3y' },
+  { label: '成立来', value: 'all' }
+]
+
+/**
+ * 区间风险收益指标
+ * 收益率、波动率等均为百分比
+ */
+export interface PerformanceMetrics {
+  startDate: string // 区间起始净值日期
+  endDate: string // 区间结束净值日期
+  tradingDays: number // 区间内的日收益样本数
+  totalReturn: number // 区间收益率
+  annualizedReturn: number // 年化收益率
+  annualizedVolatility: number // 年化波动率
+  maxDrawdown: number // 最大回撤（正值）
+  drawdownPeakDate: string | null // 最大回撤起点（前高）
+  drawdownTroughDate: string | null // 最大回撤谷底
+  drawdownRecoveryDate: string | null // 回到前高的日期，尚未修复时为 null
+  sharpeRatio: number | null // 夏普比率，波动率为 0 时为 null
+  calmarRatio: number | null // 卡玛比率，没有回撤时为 null
+  winRate: number // 日收益为正的交易日占比
+}
+
+/**
+ * 归一化净值点：相对区间起点的累计涨跌幅
+ */
+export interface NormalizedPoint {
+  date: string // 净值日期
+  change: number // 相对区间起点的涨跌幅 (百分比)
+}
+
+/**
+ * 多基金对比中单只基金的数据
+ */
+export interface FundComparison {
+  code: string // 基金代码
+  series: NormalizedPoint[] // 归一化曲线（按日期升序）
+  metrics: PerformanceMetrics | null // 区间风险收益指标
+}
+
+/**
+ * 业绩比较基准指数
+ */
+export interface BenchmarkIndex {
+  code: string // 指数代码
+  name: string // 指数名称
+}
+
+/**
+ * 可选的比较基准
+ */
+export const BENCHMARK_INDEXES: BenchmarkIndex[] = [
+  { code: '000300', name: '沪深300' },
+  { code: '000905', name: '中证500' },
+  { code: '399006', name: '创业板指' },
+  { code: 'NDX', name: '纳斯达克100' }
+]
+
+/**
+ * 基金相对比较基准的区间表现
+ * 只使用基金与指数都有数据的日期
+ */
+export interface BenchmarkComparison {
+  index: BenchmarkIndex // 比较基准
+  isDefault: boolean // 是否为按基金类型自动选择的默认基准
+  series: NormalizedPoint[] // 指数相对区间起点的涨跌幅（按日期升序）
+  fundReturn: number // 基金区间收益率
+  benchmarkReturn: number // 指数区间涨跌幅
+  excessReturn: number // 超额收益 = 基金收益 − 指数涨幅 (百分点)
+  trackingError: number // 年化跟踪误差
+  informationRatio: number | null // 信息比率，跟踪误差为 0 时为 null
+  beta: number | null // 贝塔系数，指数没有波动时为 null
+  outperformRate: number // 日收益跑赢指数的交易日占比
+}
+
+/**
+ * 回测策略
+ * - lumpSum: 区间起点一次性买入
+ * - fixedAmount: 定期定额
+ * - valueAveraging: 价值平均，每期把持仓市值补足到目标值，超出目标时赎回
+ */
+export type BacktestStrategy = 'lumpSum' | 'fixedAmount' | 'valueAveraging'
+
+/**
+ * 回测策略选项
+ */
+export const BACKTEST_STRATEGY_OPTIONS: { label: string; value: BacktestStrategy }[] = [
+  { label: '一次性买入', value: 'lumpSum' },
+  { label: '定期定额', value: 'fixedAmount' },
+  { label: '价值平均', value: 'valueAveraging' }
+]
+
+/**
+ * 回测参数
+ */
+export interface BacktestConfig {
+  strategy: BacktestStrategy
+  startDate: string // 回测开始日期 YYYY-MM-DD
+  endDate: string // 回测结束日期 YYYY-MM-DD
+  amount: number // 一次性买入金额 / 每期定投金额 / 每期目标市值增量
+  frequency: PlanFrequency // 扣款频率，一次性买入时忽略
+  feeRate: number // 申购费率 (百分比)
+}
+
+/**
+ * 回测中的一笔交易
+ */
+export interface BacktestTrade {
+  date: string // 净值日期
+  amount: number // 申购金额为正，赎回金额为负
+  netValue: number // 成交净值
+  shares: number // 成交份额，赎回为负
+  fee: number // 手续费
+}
+
+/**
+ * 回测资金曲线上的一点
+ */
+export interface BacktestPoint {
+  date: string // 净值日期
+  invested: number // 累计净投入（申购 − 赎回）
+  value: number // 持仓市值
+}
+
+/**
+ * 回测结果
+ */
+export interface BacktestResult {
+  config: BacktestConfig
+  startDate: string // 实际首个净值日期
+  endDate: string // 实际最后净值日期
+  points: BacktestPoint[] // 资金曲线（按日期升序）
+  trades: BacktestTrade[] // 交易明细（按日期升序）
+  totalInvested: number // 累计申购金额
+  totalWithdrawn: number // 累计赎回金额
+  finalValue: number // 期末持仓市值
+  profit: number // 总收益 = 期末市值 + 赎回 − 申购
+  returnRate: number // 收益率 = 总收益 / 累计申购 (百分比)
+  irr: number | null // 年化内部收益率 (百分比)，无法求解时为 null
+  maxDrawdown: number // 最大回撤（扣除追加投入的影响，正值百分比）
+  drawdownPeakDate: string | null // 最大回撤起点
+  drawdownTroughDate: string | null // 最大回撤谷底
+}
@@ -1,3 +1,5 @@
+import type { PortfolioPosition } from './portfolio'
+
 /**
  * 基金持仓信息
  */
@@ -15,6 +17,7 @@ export interface Holding {
 export interface Fund {
   code: string // 基金代码，如 "000001"
   name: string // 基金名称
+  type?: string // 基金类型，如 "混合型"、"QDII"
   netValue: number // 最新净值
   netValueDate: string // 净值日期 (YYYY-MM-DD)
   estimatedValue: number // 估算净值
@@ -22,9 +25,32 @@ export interface Fund {
   updateTime: string // 估值更新时间 (ISO 字符串)
   holdings: Holding[] // 前十大持仓
   isRealValue?: boolean // 是否是真实净值（收盘后已更新）
-  shares?: number // 持有份额
+  shares?: number // 持有份额（所有组合合计）
+  costPrice?: number // 持仓成本价（所有组合合计的每份平均成本）
+  positions?: Record<string, PortfolioPosition> // 按组合标识区分的持仓
+  group?: string // 所属分组名称，未分组时为空
+  tags?: string[] // 自定义标签，如 "科技"、"宽基"
+  benchmark?: string // 比较基准指数代码，未设置时按基金类型自动选择
+  upstreamValuation?: Valuation // 数据源提供的估值
+  selfValuation?: Valuation // 根据持仓行情自行计算的估值
+  calibratedValuation?: Valuation // 经历史误差校准后的持仓估值
+  calibration?: CalibrationModel // 校准模型参数
+  estimateSource?: EstimateSource // 当前估值（estimatedValue/estimatedChange）的来源
+}
+
+/**
+ * 基金分组和标签的修改内容
+ */
+export interface FundTagsUpdate {
+  group?: string // 分组名称，为空表示移出分组
+  tags: string[]
 }
 
+/**
+ * 估值来源：数据源估值 / 持仓自算估值
+ */
+export type EstimateSource = 'upstream' | 'self'
+
 /**
  * 基金基本信息（搜索结果）
  */
@@ -62,4 +88,74 @@ export interface Valuation {
   estimatedChange: number // 估算涨跌幅 (百分比)
   updateTime: string // 更新时间 (ISO 字符串)
   isComplete: boolean // 数据是否完整
+  coveredRatio?: number // 有行情的持仓合计占比 (百分比)，仅自算估值提供
+}
+
+/**
+ * 收盘估值与真实净值对照记录（每只基金每个交易日一条）
+ */
+export interface EstimateRecord {
+  date: string // 交易日 (YYYY-MM-DD)
+  estimatedValue: number // 收盘前最后一次展示的估算净值
+  estimatedChange: number // 收盘前最后一次展示的估算涨跌幅 (百分比)
+  estimateSource: EstimateSource // 展示估值的来源
+  upstreamChange?: number // 数据源估算涨跌幅
+  selfChange?: number // 持仓自算涨跌幅（已按覆盖占比归一化）
+  selfCoveredRatio?: number // 持仓自算时的覆盖占比 (百分比)
+  calibratedChange?: number // 校准后的估算涨跌幅
+  realValue: number // 公布的真实净值
+  realChange: number // 真实涨跌幅 (百分比)
+}
+
+/**
+ * 估值准确度统计
+ */
+export interface AccuracyStats {
+  sampleSize: number // 样本天数
+  meanAbsoluteError: number // 平均绝对误差 (百分点)
+  bias: number // 平均偏差：估算 - 真实 (百分点)，正值表示偏高
+  directionHitRate: number // 涨跌方向命中率 (百分比)
+}
+
+/**
+ * 单只基金的估值准确度报告
+ */
+export interface EstimateAccuracyReport {
+  code: string // 基金代码
+  displayed: AccuracyStats | null // 实际展示估值的准确度
+  upstream: AccuracyStats | null // 数据源估值的准确度
+  self: AccuracyStats | null // 持仓自算估值的准确度
+  calibrated: AccuracyStats | null // 校准估值的准确度
+  records: EstimateRecord[] // 最近的对照记录（按日期降序）
+}
+
+/**
+ * 估值校准模型
+ * 真实涨跌幅 ≈ scale × 前十大持仓加权涨跌幅 + offset
+ */
+export interface CalibrationModel {
+  scale: number // 缩放系数
+  offset: number // 截距 (百分点)
+  sampleSize: number // 拟合使用的交易日数
+  rSquared: number // 拟合优度 (0-1)
+  fittedThrough: string // 样本最后一个交易日 (YYYY-MM-DD)
+}
+
+/**
+ * 分时估值数据点
+ */
+export interface IntradayPoint {
+  time: string // 时刻 (HH:mm)
+  estimatedValue: number // 估算净值
+  estimatedChange: number // 估算涨跌幅 (百分比)
+}
+
+/**
+ * 单个交易日的分时估值序列
+ * 只包含交易时段内的数据点，午间休市没有数据
+ */
+export interface IntradaySeries {
+  code: string // 基金代码
+  date: string // 交易日 (YYYY-MM-DD)
+  points: IntradayPoint[] // 按时刻升序
 }
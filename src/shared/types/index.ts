@@ -2,3 +2,9 @@
 export * from './fund'
 export * from './store'
 export * from './storage'
+export * from './settings'
+export * from './transaction'
+export * from './portfolio'
+export * from './profit'
+export * from './analytics'
+export * from './alert'
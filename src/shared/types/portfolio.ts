@@ -0,0 +1,60 @@
+/**
+ * 组合标识：全部组合（合并视图）
+ */
+export const ALL_PORTFOLIOS = 'all'
+
+/**
+ * 默认组合标识（迁移前的数据归入该组合）
+ */
+export const DEFAULT_PORTFOLIO_ID = 'default'
+
+/**
+ * 投资组合（如支付宝、银行 App、券商等不同平台的账户）
+ */
+export interface Portfolio {
+  id: string // 组合标识
+  name: string // 组合名称
+  codes: string[] // 组合内的基金代码
+  createdAt: string // 创建时间 (ISO 字符串)
+  allocation?: AllocationSettings // 目标配置，未设置时为 undefined
+}
+
+/**
+ * 组合列表及当前查看的组合
+ */
+export interface PortfolioState {
+  portfolios: Portfolio[]
+  activeId: string // 当前组合标识，ALL_PORTFOLIOS 表示全部组合
+}
+
+/**
+ * 基金在单个组合中的持仓
+ */
+export interface PortfolioPosition {
+  shares: number // 持有份额
+  costPrice?: number // 持仓成本价（每份平均成本）
+}
+
+/**
+ * 目标配置方式：按基金或按标签（如 "股票"、"债券"）
+ */
+export type AllocationMode = 'fund' | 'tag'
+
+/**
+ * 单项目标权重
+ */
+export interface AllocationTarget {
+  key: string // 基金代码或标签名
+  weight: number // 目标权重 (百分比)
+}
+
+/**
+ * 组合的目标配置及再平衡规则
+ */
+export interface AllocationSettings {
+  mode: AllocationMode
+  targets: AllocationTarget[] // 各项目标权重，合计 100%
+  driftThreshold: number // 偏离阈值 (百分点)，任一项偏离超过阈值时建议再平衡
+  minTradeAmount: number // 最小交易金额（元），低于该金额的调整不提示
+  alertEnabled: boolean // 偏离超过阈值时是否提醒
+}
@@ -0,0 +1,41 @@
+/**
+ * 单只基金的当日收益
+ */
+export interface FundDailyProfit {
+  code: string // 基金代码
+  name: string // 基金名称
+  shares: number // 计算收益的份额（各组合合计）
+  positions?: Record<string, number> // 各组合的份额，按组合统计时按份额拆分收益
+  netValue: number // 当日净值
+  change: number // 当日涨跌幅 (百分比)
+  profit: number // 当日收益（元）
+}
+
+/**
+ * 每日收益快照（每个交易日一条，在真实净值公布后记录）
+ */
+export interface DailyProfitRecord {
+  date: string // 交易日 (YYYY-MM-DD)
+  profit: number // 当日总收益（元）
+  funds: FundDailyProfit[]
+}
+
+/**
+ * 按月或按年汇总的收益
+ */
+export interface PeriodProfit {
+  period: string // 月份 (YYYY-MM) 或年份 (YYYY)
+  profit: number // 合计收益（元）
+  days: number // 有收益记录的交易日数
+}
+
+/**
+ * 收益日历
+ */
+export interface ProfitCalendar {
+  year: number
+  days: DailyProfitRecord[] // 该年每个交易日的收益（按日期升序）
+  months: PeriodProfit[] // 该年 12 个月的合计
+  years: PeriodProfit[] // 历年合计（按年份升序）
+  total: number // 该年合计
+}
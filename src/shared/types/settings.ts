@@ -0,0 +1,51 @@
+import type { CostMethod } from './transaction'
+
+/**
+ * 自定义数据源（与默认代理接口兼容的 HTTP 服务）
+ */
+export interface CustomDataSource {
+  id: string // 数据源标识
+  name: string // 展示名称
+  baseUrl: string // 接口根地址
+}
+
+/**
+ * 数据源设置
+ */
+export interface DataSourceSettings {
+  providerId: string // 当前使用的数据源标识
+  customSources: CustomDataSource[] // 用户添加的自定义数据源
+}
+
+/**
+ * 估值校准设置
+ */
+export interface CalibrationSettings {
+  enabled: boolean // 是否启用校准估值
+  windowDays: number // 拟合使用的最近交易日数
+}
+
+/**
+ * 交易账本设置
+ */
+export interface LedgerSettings {
+  costMethod: CostMethod // 持仓成本计算方式
+}
+
+/**
+ * 可由渲染进程直接修改的设置项
+ */
+export interface AppSettingsPatch {
+  calibration?: Partial<CalibrationSettings>
+  ledger?: Partial<LedgerSettings>
+}
+
+/**
+ * 数据源信息（供渲染进程展示）
+ */
+export interface DataProviderInfo {
+  id: string // 数据源标识
+  name: string // 展示名称
+  builtin: boolean // 是否为内置数据源
+  active: boolean // 是否正在使用
+}
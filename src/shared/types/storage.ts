@@ -1,3 +1,21 @@
+import type {
+  CalibrationModel,
+  EstimateRecord,
+  EstimateSource,
+  IntradaySeries,
+  Valuation
+} from './fund'
+import type { CalibrationSettings, DataSourceSettings, LedgerSettings } from './settings'
+import type { Portfolio, PortfolioPosition } from './portfolio'
+import type {
+  InvestmentPlan,
+  PendingOrder,
+  RedemptionFeeSchedule,
+  Transaction
+} from './transaction'
+import type { DailyProfitRecord } from './profit'
+import type { AlertRule, AlertTrigger } from './alert'
+
 /**
  * 存储的持仓信息
  */
@@ -15,6 +33,7 @@ export interface StoredHolding {
 export interface StoredFund {
   code: string // 基金代码
   name: string // 基金名称
+  type?: string // 基金类型
   netValue: number // 最新净值
   netValueDate: string // 净值日期
   estimatedValue: number // 估算净值
@@ -24,6 +43,16 @@ export interface StoredFund {
   addedAt: string // 添加时间 (ISO 日期字符串)
   isRealValue?: boolean // 是否是真实净值
   shares?: number // 持有份额
+  costPrice?: number // 持仓成本价
+  positions?: Record<string, PortfolioPosition> // 各组合的持仓
+  group?: string // 所属分组
+  tags?: string[] // 自定义标签
+  benchmark?: string // 比较基准指数代码
+  upstreamValuation?: Valuation // 数据源估值
+  selfValuation?: Valuation // 持仓自算估值
+  calibratedValuation?: Valuation // 校准估值
+  calibration?: CalibrationModel // 校准模型参数
+  estimateSource?: EstimateSource // 当前估值来源
 }
 
 /**
@@ -34,7 +63,24 @@ export interface StorageSchema {
     funds: StoredFund[]
     version: number
   }
+  portfolios: {
+    list: Portfolio[]
+    activeId: string
+  }
+  groups: string[] // 自选基金分组（按展示顺序）
+  estimateHistory: Record<string, EstimateRecord[]> // 按基金代码分组的估值对照记录
+  intradaySeries: Record<string, IntradaySeries[]> // 按基金代码分组的分时估值序列
+  transactions: Record<string, Transaction[]> // 按基金代码分组的交易记录
+  pendingOrders: Record<string, PendingOrder[]> // 按基金代码分组的待确认申请
+  investmentPlans: InvestmentPlan[] // 定投计划
+  redemptionFees: Record<string, RedemptionFeeSchedule> // 按基金代码保存的赎回费率表
+  profitHistory: DailyProfitRecord[] // 每日收益快照（按日期升序）
+  alertRules: AlertRule[] // 提醒规则
+  alertHistory: AlertTrigger[] // 提醒触发记录（按时间升序）
   settings: {
     theme: 'light' | 'dark'
+    dataSource: DataSourceSettings
+    calibration: CalibrationSettings
+    ledger: LedgerSettings
   }
 }
@@ -1,15 +1,29 @@
 import type { Fund } from './fund'
+import type { Portfolio } from './portfolio'
 
 /**
  * 自选列表状态
  */
 export interface WatchlistState {
   funds: Fund[]
+  portfolios: Portfolio[]
+  activePortfolioId: string // 当前查看的组合，ALL_PORTFOLIOS 表示全部组合
+  groups: string[] // 自选基金分组（按展示顺序）
   loading: boolean
   error: string | null
   lastUpdateTime: string | null
 }
 
+/**
+ * 持仓收益汇总
+ */
+export interface HoldingSummary {
+  holdingValue: number // 持有市值（按最新估值或净值）
+  cost: number // 持仓成本
+  profit: number // 累计持有收益
+  returnRate: number // 持有收益率 (百分比)
+}
+
 /**
  * 错误状态
  */
@@ -19,3 +33,131 @@ export interface ErrorState {
   retryable: boolean
   timestamp: string
 }
+
+/**
+ * 分组汇总
+ */
+export interface FundGroupSummary {
+  name: string // 分组名称，空字符串表示未分组
+  funds: Fund[]
+  estimatedChange: number | null // 组内估值涨幅 (百分比，按持仓市值加权)
+  equalWeight: boolean // 组内都没有持仓份额，涨幅按等权重平均
+  equalWeightCount: number // 组内未持有份额、按等权重计入的基金数
+  estimatedProfit: number | null // 组内今日预估盈利
+}
+
+/**
+ * 持有某只股票的基金
+ */
+export interface StockExposureSource {
+  code: string // 基金代码
+  name: string // 基金名称
+  ratio: number // 该股票占基金净值比例 (百分比)
+  value: number // 经该基金穿透持有的市值（元）
+}
+
+/**
+ * 穿透后对单只股票的持仓暴露
+ */
+export interface StockExposure {
+  stockCode: string // 股票代码
+  stockName: string // 股票名称
+  value: number // 穿透持有市值（元）
+  weight: number // 占基金持仓总市值的比例 (百分比)
+  change: number // 当日涨跌幅 (百分比)
+  funds: StockExposureSource[] // 持有该股票的基金（按穿透市值降序）
+}
+
+/**
+ * 组合的股票穿透汇总
+ */
+export interface ExposureSummary {
+  totalValue: number // 计入的基金持仓总市值（元）
+  coverage: number // 前十大持仓合计覆盖的比例 (百分比)
+  stocks: StockExposure[] // 按穿透市值降序
+}
+
+/**
+ * 持有某只股票的自选基金（股票反查结果）
+ */
+export interface StockHolder {
+  code: string // 基金代码
+  name: string // 基金名称
+  stockCode: string // 股票代码
+  stockName: string // 股票名称
+  ratio: number // 该股票占基金净值比例 (百分比)
+  stockChange: number // 股票当日涨跌幅 (百分比)
+  contribution: number // 对基金估值涨跌幅的贡献 (百分点) = 占比 × 股票涨跌幅
+  fundChange: number // 基金估值涨跌幅 (百分比)
+}
+
+/**
+ * 单只股票对基金当日涨跌的贡献
+ */
+export interface StockContribution {
+  stockCode: string // 股票代码
+  stockName: string // 股票名称
+  ratio: number // 占基金净值比例 (百分比)
+  change: number // 股票当日涨跌幅 (百分比)
+  contributionBp: number // 对基金涨跌幅的贡献（基点）= 占比 × 涨跌幅
+  profit: number | null // 对应的持仓盈亏（元），未持有该基金时为 null
+}
+
+/**
+ * 单只基金对组合当日涨跌的贡献
+ */
+export interface FundContribution {
+  code: string // 基金代码
+  name: string // 基金名称
+  change: number // 基金估值涨跌幅 (百分比)
+  weight: number // 在组合中的权重 (百分比)
+  contributionBp: number // 对组合涨跌幅的贡献（基点）
+  profit: number | null // 今日预估盈亏（元），等权重计入时为 null
+  equalWeight: boolean // 未持有份额，按持仓基金的平均市值等权计入
+  stocks: StockContribution[] // 前十大持仓的贡献（按贡献绝对值降序）
+  residualBp: number // 前十大持仓之外的部分对基金涨跌幅的贡献（基点）
+}
+
+/**
+ * 组合当日涨跌的贡献拆解
+ */
+export interface ContributionSummary {
+  change: number | null // 组合涨跌幅 (百分比)
+  profit: number | null // 今日预估盈亏（元），等权重计算时为 null
+  equalWeight: boolean // 是否因没有持仓份额而全部退回等权重计算
+  equalWeightCount: number // 未持有份额、按等权重计入的基金数
+  funds: FundContribution[] // 按贡献绝对值降序
+}
+
+/**
+ * 再平衡建议中的单笔交易
+ */
+export interface RebalanceTrade {
+  code: string // 基金代码
+  name: string // 基金名称
+  amount: number // 建议金额（元），正数为买入，负数为卖出
+}
+
+/**
+ * 单个配置项（基金或标签）的当前权重与目标权重
+ */
+export interface AllocationItem {
+  key: string // 基金代码或标签名，空字符串表示未设置目标的基金
+  label: string // 展示名称
+  value: number // 当前市值（元）
+  currentWeight: number // 当前权重 (百分比)
+  targetWeight: number // 目标权重 (百分比)
+  drift: number // 偏离 = 当前权重 − 目标权重 (百分点)
+  trades: RebalanceTrade[] // 该项下各基金的建议交易
+}
+
+/**
+ * 组合的配置偏离与再平衡建议
+ */
+export interface RebalanceSummary {
+  totalValue: number // 计入的持仓总市值（元）
+  maxDrift: number // 最大偏离绝对值 (百分点)
+  needsRebalance: boolean // 是否有配置项偏离超过阈值
+  items: AllocationItem[] // 按目标配置顺序，未设置目标的放在最后
+  trades: RebalanceTrade[] // 全部建议交易（先卖后买）
+}
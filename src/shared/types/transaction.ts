@@ -0,0 +1,202 @@
+import type { Fund } from './fund'
+
+/**
+ * 交易类型
+ * - buy: 申购（按金额）
+ * - sell: 赎回（按份额）
+ * - dividend: 现金分红
+ * - reinvest: 红利再投资
+ */
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'reinvest'
+
+/**
+ * 成本计算方式：先进先出 / 移动加权平均
+ */
+export type CostMethod = 'fifo' | 'average'
+
+/**
+ * 交易记录
+ */
+export interface Transaction {
+  id: string // 记录标识
+  code: string // 基金代码
+  portfolioId: string // 所属组合
+  type: TransactionType // 交易类型
+  date: string // 确认日期 (YYYY-MM-DD)
+  amount?: number // 金额：申购为含手续费的申购金额，分红/再投资为分红金额
+  shares?: number // 份额：赎回份额；申购和再投资由金额和净值推算
+  netValue?: number // 确认净值（申购、赎回、再投资）
+  feeRate?: number // 手续费率 (百分比)，申购和赎回
+  note?: string // 备注
+  planId?: string // 来源定投计划
+  createdAt: string // 录入时间 (ISO 字符串)
+}
+
+/**
+ * 新增交易时的输入（不含自动生成的字段）
+ */
+export type TransactionInput = Omit<Transaction, 'id' | 'code' | 'portfolioId' | 'createdAt'>
+
+/**
+ * 待确认的申购/赎回申请
+ * 按 15:00 截止规则确定 T 日，T 日净值公布后确认为交易记录；
+ * 份额从确认日（T+1，QDII 为 T+2）起计入收益
+ */
+export interface PendingOrder {
+  id: string // 申请标识
+  code: string // 基金代码
+  portfolioId: string // 所属组合
+  type: 'buy' | 'sell' // 申购或赎回
+  amount?: number // 申购金额（含手续费）
+  shares?: number // 赎回份额
+  feeRate?: number // 手续费率 (百分比)
+  orderTime: string // 提交时间（北京时间 YYYY-MM-DD HH:mm）
+  tradeDate: string // 适用净值的交易日（T 日）
+  confirmDate: string // 份额确认日期
+  note?: string // 备注
+  planId?: string // 来源定投计划
+  createdAt: string // 录入时间 (ISO 字符串)
+}
+
+/**
+ * 提交申购/赎回申请时的输入
+ * 未指定提交时间时按当前时间计算 T 日
+ */
+export type PendingOrderInput = Pick<
+  PendingOrder,
+  'type' | 'amount' | 'shares' | 'feeRate' | 'note' | 'planId'
+> & {
+  orderTime?: string
+}
+
+/**
+ * 持仓批次（按确认日期先进先出）
+ */
+export interface PositionLot {
+  transactionId: string // 来源交易
+  date: string // 确认日期
+  shares: number // 剩余份额
+  cost: number // 剩余份额对应的成本
+}
+
+/**
+ * 由交易记录推算的持仓
+ */
+export interface Position {
+  shares: number // 持有份额
+  cost: number // 持仓成本
+  averageCost: number // 每份平均成本，无持仓时为 0
+  realizedProfit: number // 已实现收益（赎回盈亏 + 现金分红）
+  totalInvested: number // 累计申购金额
+  totalFees: number // 累计手续费
+  lots: PositionLot[] // 剩余持仓批次
+}
+
+/**
+ * 基金交易账本
+ */
+export interface Ledger {
+  code: string // 基金代码
+  portfolioId: string // 所属组合
+  method: CostMethod // 成本计算方式
+  transactions: Transaction[] // 交易记录（按确认日期升序）
+  pending: PendingOrder[] // 待确认的申购/赎回申请
+  position: Position // 推算的持仓
+  fund?: Fund // 同步持仓后的基金（基金在自选列表中时）
+}
+
+/**
+ * 定投频率：每周 / 每两周 / 每月
+ */
+export type PlanFrequency = 'weekly' | 'biweekly' | 'monthly'
+
+/**
+ * 定投计划
+ * 扣款日遇休市顺延到下一个交易日，执行时生成当日 09:30 提交的申购申请
+ */
+export interface InvestmentPlan {
+  id: string // 计划标识
+  code: string // 基金代码
+  portfolioId: string // 所属组合
+  amount: number // 每期申购金额（含手续费）
+  feeRate: number // 申购费率 (百分比)
+  frequency: PlanFrequency // 定投频率
+  weekday?: number // 每周/每两周的扣款日 (1-5，周一至周五)
+  dayOfMonth?: number // 每月的扣款日 (1-28)
+  startDate: string // 开始日期，首期扣款不早于该日
+  enabled: boolean // 是否启用，暂停期间的扣款日不会补扣
+  executedThrough: string // 已处理到的日期，该日及之前的扣款日不再执行
+  createdAt: string // 创建时间 (ISO 字符串)
+}
+
+/**
+ * 新建或修改定投计划时的输入
+ */
+export type InvestmentPlanInput = Pick<
+  InvestmentPlan,
+  'amount' | 'feeRate' | 'frequency' | 'weekday' | 'dayOfMonth' | 'startDate' | 'enabled'
+>
+
+/**
+ * 定投计划及其执行情况
+ */
+export interface InvestmentPlanSummary {
+  plan: InvestmentPlan
+  nextRunDate: string | null // 下次扣款日，暂停时为 null
+  executions: number // 已执行期数（含待确认）
+  pendingAmount: number // 待确认的申购金额
+  totalInvested: number // 累计投入（含待确认）
+  shares: number // 已确认份额
+  currentValue: number // 当前市值（已确认份额按最新估值，待确认按申购金额）
+  profit: number // 累计收益
+  returnRate: number // 累计收益率 (百分比)
+}
+
+/**
+ * 赎回费率档位：持有天数达到 minDays 后适用 rate
+ */
+export interface RedemptionFeeTier {
+  minDays: number // 持有天数下限（自然日，含）
+  rate: number // 赎回费率 (百分比)
+}
+
+/**
+ * 基金的赎回费率表
+ */
+export interface RedemptionFeeSchedule {
+  tiers: RedemptionFeeTier[] // 按 minDays 升序，第一档从 0 天开始
+  source: 'provider' | 'manual' // 数据源获取 / 手动录入
+  updatedAt: string // 更新时间 (ISO 字符串)
+}
+
+/**
+ * 单个持仓批次按今日赎回的测算
+ */
+export interface LotRedemption {
+  transactionId: string // 来源交易
+  date: string // 份额确认日期
+  shares: number // 剩余份额
+  cost: number // 剩余份额对应的成本
+  holdingDays: number // 截至赎回 T 日的持有天数
+  feeRate: number // 适用的赎回费率 (百分比)
+  value: number // 赎回金额（份额 × 净值）
+  fee: number // 赎回费
+  proceeds: number // 到账金额 = 赎回金额 − 赎回费
+  profit: number // 到账金额 − 成本
+  nextTierDate: string | null // 降到更低费率档的首个 T 日，已是最低档时为 null
+  nextTierRate: number | null // 下一档费率
+}
+
+/**
+ * 按今日估值测算的赎回结果
+ */
+export interface SellQuote {
+  tradeDate: string // 现在提交赎回适用的 T 日
+  netValue: number // 测算使用的净值（最新估值，无估值时为最新净值）
+  schedule: RedemptionFeeSchedule | null // 赎回费率表，未获取到时为 null（按 0 费率测算）
+  lots: LotRedemption[] // 持仓批次（先进先出顺序，赎回时先扣减最早的批次）
+  shares: number // 持有份额
+  value: number // 全部赎回的赎回金额
+  fee: number // 全部赎回的赎回费
+  proceeds: number // 全部赎回的到账金额
+}